@@ -4,6 +4,8 @@ import { Command } from "commander";
 import { readFileSync } from "fs";
 import { join } from "path";
 import { verifyFilfoxCommand } from "../commands/verify-filfox";
+import { verifyBroadcastCommand } from "../commands/verify-broadcast";
+import { statusCommand } from "../commands/status";
 
 const program = new Command();
 
@@ -17,6 +19,8 @@ program
   .version(packageJson.version);
 
 program.addCommand(verifyFilfoxCommand);
+program.addCommand(verifyBroadcastCommand);
+program.addCommand(statusCommand);
 if (require.main === module) {
   program.parse();
 }
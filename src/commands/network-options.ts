@@ -0,0 +1,110 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import {
+  FILFOX_CONFIG_FILE,
+  FilfoxNetwork,
+  createFilfoxNetwork,
+  describeFilfoxNetworks,
+  getFilfoxNetwork,
+  isFilfoxNetwork,
+  loadFilfoxConfig,
+} from "../services/networks";
+import { DEFAULT_REQUEST_OPTIONS, RequestOptions } from "../services/http";
+
+/**
+ * Adds the network selection options shared by all commands
+ */
+export const withNetworkOptions = (command: Command): Command =>
+  command
+    .option(
+      "--chain <chainId>",
+      "Chain ID (314: Filecoin Mainnet, 314159: Filecoin Calibration Testnet)"
+    )
+    .option(
+      "--api-url <url>",
+      "API URL of a custom Filfox-compatible explorer (requires --explorer-url)"
+    )
+    .option(
+      "--explorer-url <url>",
+      "Explorer URL of a custom Filfox-compatible explorer (requires --api-url)"
+    )
+    .option(
+      "--config <path>",
+      `Filfox config file registering custom networks (default: ${FILFOX_CONFIG_FILE} if present)`
+    )
+    .option(
+      "--timeout <ms>",
+      `Timeout of each request to Filfox in milliseconds (default: ${DEFAULT_REQUEST_OPTIONS.timeout})`
+    )
+    .option(
+      "--retries <count>",
+      `Retries on network errors, rate limits and server errors (default: ${DEFAULT_REQUEST_OPTIONS.retries})`
+    );
+
+/**
+ * Parses an integer option of at least `min`, throws on invalid values
+ */
+export const parseIntegerOption = (
+  value: string | undefined,
+  name: string,
+  min = 0
+): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(
+      `Invalid ${name}: ${value}, expected an integer of at least ${min}`
+    );
+  }
+  return parsed;
+};
+
+/**
+ * Builds the timeout and retry policy from the command options, reporting retries on stderr.
+ * Throws on invalid values.
+ */
+export const resolveRequestOptions = (options: {
+  timeout?: string;
+  retries?: string;
+}): RequestOptions => ({
+  timeout: parseIntegerOption(options.timeout, "--timeout"),
+  retries: parseIntegerOption(options.retries, "--retries"),
+  onRetry: ({ attempt, delay, reason }) =>
+    console.error(
+      chalk.yellow(
+        `\n${reason}, retrying in ${Math.ceil(delay / 1000)}s (retry ${attempt})`
+      )
+    ),
+});
+
+/**
+ * Resolves the network from the command options, throws when it is not supported
+ */
+export const resolveNetwork = (options: {
+  chain?: string;
+  apiUrl?: string;
+  explorerUrl?: string;
+  config?: string;
+}): FilfoxNetwork => {
+  loadFilfoxConfig(options.config);
+
+  if (options.apiUrl || options.explorerUrl) {
+    return createFilfoxNetwork(options.chain ?? 0, {
+      apiUrl: options.apiUrl ?? "",
+      explorerUrl: options.explorerUrl ?? "",
+    });
+  }
+
+  if (!options.chain || !isFilfoxNetwork(options.chain)) {
+    throw new Error(
+      [
+        `Invalid chain ID: ${options.chain}`,
+        "Valid options:",
+        ...describeFilfoxNetworks().map((network) => `  ${network}`),
+        "Or pass --api-url and --explorer-url for a custom network.",
+      ].join("\n")
+    );
+  }
+
+  return getFilfoxNetwork(options.chain);
+};
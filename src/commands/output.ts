@@ -0,0 +1,61 @@
+import ora, { Ora } from "ora";
+import {
+  VerificationResult,
+  describeVerificationResult,
+  isVerificationSuccessful,
+} from "../services/verification-result";
+
+/**
+ * Process exit codes of the CLI, one per failure category
+ */
+export const EXIT_CODES = {
+  success: 0,
+  /** Invalid input or a failure before submission (compilation, extraction, ...) */
+  error: 1,
+  bytecodeMismatch: 2,
+  compileError: 3,
+  /** Other Filfox error codes */
+  rejected: 4,
+  networkError: 5,
+  httpError: 6,
+  preflightMismatch: 7,
+} as const;
+
+export const exitCodeFor = (result: VerificationResult): number =>
+  isVerificationSuccessful(result) ? EXIT_CODES.success : EXIT_CODES[result.status];
+
+/**
+ * Creates the progress spinner of a command. It is silent with --json. When stdout
+ * isn't a TTY (CI logs, pipes), progress is suppressed and only the outcome lines
+ * (succeed, fail, warn, info) are printed.
+ */
+export const createSpinner = (text: string, options: { json?: boolean }): Ora => {
+  const interactive = !!process.stdout.isTTY;
+  const spinner = ora({ text, isSilent: !!options.json || !interactive });
+  if (!options.json && !interactive) {
+    spinner.stopAndPersist = ({ symbol, text: line } = {}) => {
+      process.stderr.write(`${symbol ?? " "} ${(line ?? spinner.text).trim()}\n`);
+      return spinner;
+    };
+  }
+  return spinner.start();
+};
+
+/**
+ * Serializes a verification result for --json output
+ */
+export const toJsonResult = (result: VerificationResult) => {
+  const { success, label } = describeVerificationResult(result);
+  return {
+    success,
+    label,
+    exitCode: exitCodeFor(result),
+    ...result,
+    errorCode: result.response?.errorCode,
+    errorMsg: result.response?.errorMsg,
+  };
+};
+
+export const printJson = (value: unknown): void => {
+  console.log(JSON.stringify(value, null, 2));
+};
@@ -0,0 +1,55 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { getVerificationStatus } from "../services/filfox-verifier";
+import {
+  resolveNetwork,
+  resolveRequestOptions,
+  withNetworkOptions,
+} from "./network-options";
+import { EXIT_CODES, createSpinner, printJson } from "./output";
+import { FilfoxHttpError } from "../services/http";
+
+export const statusCommand = withNetworkOptions(new Command())
+  .name("status")
+  .description("Check whether a contract is already verified on Filfox")
+  .argument("<address>", "Contract address to check")
+  .option("--json", "Print the status as JSON on stdout")
+  .action(async (address: string, options) => {
+    const spinner = createSpinner("Querying Filfox...", options);
+
+    try {
+      const network = resolveNetwork(options);
+      const requestOptions = resolveRequestOptions(options);
+      const status = await getVerificationStatus(network, address, requestOptions);
+
+      if (options.json) {
+        printJson(status);
+        return;
+      }
+
+      if (!status.verified) {
+        spinner.warn(`❌ Contract at ${address} is not verified.`);
+        return;
+      }
+
+      spinner.succeed(`✅ Contract "${status.contractName}" is verified.`);
+      console.log(`   Compiler: ${status.compiler ?? "unknown"}`);
+      console.log(`   License:  ${status.license ?? "none"}`);
+      console.log(`   🔗 View at: ${status.explorerUrl}`);
+    } catch (error: any) {
+      const exitCode =
+        error instanceof FilfoxHttpError
+          ? error.category === "timeout" || error.category === "network"
+            ? EXIT_CODES.networkError
+            : EXIT_CODES.httpError
+          : EXIT_CODES.error;
+
+      if (options.json) {
+        printJson({ address, status: "error", exitCode, message: error.message });
+      } else {
+        spinner.fail(chalk.red("Status check failed with error:\n"));
+        console.error(error);
+      }
+      process.exit(exitCode);
+    }
+  });
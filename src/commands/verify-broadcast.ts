@@ -0,0 +1,203 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import { FoundryProject } from "../services/FoundryProject";
+import { FoundryBroadcast } from "../services/FoundryBroadcast";
+import {
+  getVerificationStatus,
+  verifyContract,
+} from "../services/filfox-verifier";
+import {
+  handleVerificationResult,
+  prepareFoundryVerification,
+} from "./verify-filfox";
+import {
+  resolveNetwork,
+  resolveRequestOptions,
+  withNetworkOptions,
+} from "./network-options";
+import {
+  EXIT_CODES,
+  createSpinner,
+  exitCodeFor,
+  printJson,
+  toJsonResult,
+} from "./output";
+import { getExplorerUrl } from "../services/networks";
+import { describeVerificationResult } from "../services/verification-result";
+
+export const verifyBroadcastCommand = withNetworkOptions(new Command())
+  .name("forge-broadcast")
+  .description(
+    "Verify every contract deployed by a Foundry script broadcast on Filfox"
+  )
+  .argument("<script>", "Script file name, e.g. Deploy.s.sol")
+  .option(
+    "--root <path>",
+    "Foundry project root directory that contains the broadcast folder",
+    process.cwd()
+  )
+  .option(
+    "--no-compile",
+    "Use the existing artifacts and build-info instead of running forge build"
+  )
+  .option(
+    "--run <file>",
+    "Broadcast run file to read from the broadcast folder",
+    "run-latest.json"
+  )
+  .option(
+    "--profile <name>",
+    "Foundry profile to use (default: FOUNDRY_PROFILE or default)"
+  )
+  .option(
+    "--json",
+    "Print the results as JSON on stdout instead of progress messages"
+  )
+  .action(async (script: string, options) => {
+    let summary: Array<{ Contract: string; Address: string; Status: string }>;
+    const results: Array<Record<string, unknown>> = [];
+    let exitCode: number = EXIT_CODES.success;
+
+    try {
+      const network = resolveNetwork(options);
+      const requestOptions = resolveRequestOptions(options);
+      const project = new FoundryProject(options.root, {
+        profile: options.profile,
+        noCompile: !options.compile,
+      });
+      await project.initialize();
+
+      const { contracts, libraries } = new FoundryBroadcast(
+        options.root,
+        script,
+        network.chainId,
+        options.run
+      ).load();
+
+      if (contracts.length === 0) {
+        if (options.json) {
+          printJson([]);
+        } else {
+          console.log(chalk.yellow("No contract deployments found in broadcast."));
+        }
+        return;
+      }
+
+      summary = [];
+
+      for (const contract of contracts) {
+        const spinner = createSpinner(
+          `Verifying ${contract.contractName} at ${contract.address}...`,
+          options
+        );
+
+        try {
+          const { verified } = await getVerificationStatus(
+            network,
+            contract.address,
+            requestOptions
+          );
+          if (verified) {
+            spinner.succeed(
+              `ℹ️  ${contract.contractName} already verified, skipping.`
+            );
+            summary.push({
+              Contract: contract.contractName,
+              Address: contract.address,
+              Status: "already verified",
+            });
+            results.push({
+              success: true,
+              status: "alreadyVerified",
+              exitCode: EXIT_CODES.success,
+              address: contract.address,
+              contractName: contract.contractName,
+              explorerUrl: getExplorerUrl(network, contract.address),
+            });
+            continue;
+          }
+
+          const contractPath = await project.findContractSource(
+            contract.contractName
+          );
+          const compilationResult = await project.compile(
+            contractPath,
+            contract.contractName
+          );
+          const constructorArgs = FoundryBroadcast.extractConstructorArgs(
+            contract,
+            compilationResult.bytecode
+          );
+
+          const request = await prepareFoundryVerification(
+            project,
+            contract.address,
+            contractPath,
+            contract.contractName,
+            {
+              constructorArgs: constructorArgs ? `0x${constructorArgs}` : "",
+              libraries,
+              compilationResult,
+            }
+          );
+          const result = await verifyContract(network, request, requestOptions);
+
+          handleVerificationResult(result, spinner);
+          results.push({
+            ...toJsonResult(result),
+            contract: `${contractPath}:${contract.contractName}`,
+          });
+          if (exitCode === EXIT_CODES.success) {
+            exitCode = exitCodeFor(result);
+          }
+          summary.push({
+            Contract: `${contractPath}:${contract.contractName}`,
+            Address: contract.address,
+            Status: describeVerificationResult(result).label,
+          });
+        } catch (error: any) {
+          spinner.fail(chalk.red(`${contract.contractName}: ${error.message}`));
+          summary.push({
+            Contract: contract.contractName,
+            Address: contract.address,
+            Status: "error",
+          });
+          results.push({
+            success: false,
+            status: "error",
+            exitCode: EXIT_CODES.error,
+            address: contract.address,
+            contractName: contract.contractName,
+            message: error.message,
+          });
+          if (exitCode === EXIT_CODES.success) {
+            exitCode = EXIT_CODES.error;
+          }
+        }
+      }
+    } catch (error: any) {
+      if (options.json) {
+        printJson({
+          success: false,
+          status: "error",
+          exitCode: EXIT_CODES.error,
+          message: error.message,
+        });
+      } else {
+        console.error(chalk.red("Broadcast verification failed with error:\n"));
+        console.error(error);
+      }
+      process.exit(EXIT_CODES.error);
+    }
+
+    // The exit code is the one of the first failed contract
+    process.exitCode = exitCode;
+
+    if (options.json) {
+      printJson(results);
+      return;
+    }
+
+    console.log(chalk.cyanBright("\nVerification Summary:\n"));
+    console.table(summary);
+  });
@@ -1,10 +1,61 @@
 import { Command } from "commander";
 import chalk from "chalk";
-import ora, { Ora } from "ora";
-import { FoundryProject } from "../services/FoundryProject";
-import { FilfoxVerifier } from "../services/filfox-verifier";
+import { Ora } from "ora";
+import { JsonRpcProvider, Provider } from "ethers";
+import { CompilationResult, FoundryProject } from "../services/FoundryProject";
+import {
+  FilfoxVerifier,
+  VerificationRequest,
+  verifyContract,
+} from "../services/filfox-verifier";
+import {
+  defaultPayloadPath,
+  writeVerificationPayload,
+} from "../services/dry-run";
+import {
+  encodeConstructorArgs,
+  loadConstructorArgs,
+} from "../services/constructor-args";
+import {
+  LinkReferences,
+  flattenLibraries,
+  parseLibraryOption,
+  resolveLibraries,
+} from "../services/libraries";
+import { FilfoxNetwork } from "../services/networks";
+import { toCompilerSettings } from "../services/compiler-settings";
+import { detectProxy } from "../services/proxy";
+import { formatImportReport } from "../services/import-resolver";
+import {
+  PreflightReport,
+  describePreflightReport,
+  preflightVerification,
+} from "../services/preflight";
+import {
+  VerificationResult,
+  describeVerificationResult,
+  isVerificationSuccessful,
+} from "../services/verification-result";
+import {
+  DEFAULT_WAIT_OPTIONS,
+  WaitOptions,
+  verifyWhenIndexed,
+} from "../services/wait";
+import {
+  parseIntegerOption,
+  resolveNetwork,
+  resolveRequestOptions,
+  withNetworkOptions,
+} from "./network-options";
+import {
+  EXIT_CODES,
+  createSpinner,
+  exitCodeFor,
+  printJson,
+  toJsonResult,
+} from "./output";
 
-export const verifyFilfoxCommand = new Command()
+export const verifyFilfoxCommand = withNetworkOptions(new Command())
   .name("forge")
   .description("Verify a smart contract on Filfox using Foundry")
   .argument("<address>", "Contract address to verify")
@@ -12,129 +63,473 @@ export const verifyFilfoxCommand = new Command()
     "<contract>",
     "Contract path in format src/Contract.sol:ContractName"
   )
-  .option(
-    "--chain <chainId>",
-    "Chain ID (314: Filecoin Mainnet, 314159: Filecoin Calibration Testnet)"
-  )
   .option(
     "--root <path>",
     "Foundry project root directory that contains the contract to verify no need to specify if you are already in the project root directory",
     process.cwd()
   )
+  .option(
+    "--profile <name>",
+    "Foundry profile to use (default: FOUNDRY_PROFILE or default)"
+  )
+  .option(
+    "--no-compile",
+    "Use the existing artifact and build-info instead of running forge build"
+  )
+  .option(
+    "--artifact <path>",
+    "Artifact of the contract to verify, e.g. shipped by another team (implies --no-compile)"
+  )
+  .option(
+    "--build-info <path>",
+    "Build-info file or directory of the artifact (default: build-info next to the artifact, then the project's)"
+  )
+  .option(
+    "--constructor-args <args>",
+    "ABI-encoded constructor arguments (0x...) or path to a JSON/.js file exporting an array of arguments"
+  )
+  .option(
+    "--libraries <library>",
+    "Linked library address in format Name=0xAddress (repeatable)",
+    (value: string, previous: string[]) => [...previous, value],
+    []
+  )
+  .option(
+    "--license <license>",
+    "License sent to Filfox, e.g. MIT (default: the SPDX-License-Identifier of the contract)"
+  )
+  .option(
+    "--include-path <path>",
+    "Include path used during compilation, relative to the project root (repeatable)",
+    (value: string, previous: string[]) => [...previous, value],
+    []
+  )
+  .option(
+    "--explain-imports",
+    "Print how each import was resolved and which source files were pruned"
+  )
+  .option(
+    "--dry-run",
+    "Prepare the verification request and write it to disk without contacting Filfox"
+  )
+  .option(
+    "--output <file>",
+    "File the verification request is written to (implies --dry-run)"
+  )
+  .option(
+    "--standard-json <file>",
+    "Also write the solc standard JSON input of a dry run to this file"
+  )
+  .option(
+    "--preflight",
+    "Recompile the payload locally and compare it with the deployed bytecode before submitting"
+  )
+  .option(
+    "--rpc-url <url>",
+    "RPC endpoint used by --preflight to read the on-chain bytecode (default: artifact bytecode) and by --confirmations"
+  )
+  .option(
+    "--creation-tx <hash>",
+    "Deployment transaction used by --preflight to check the constructor arguments (requires --rpc-url)"
+  )
+  .option(
+    "--implementation <contract-path>",
+    "When the address is an ERC-1967 proxy (read via --rpc-url), also verify its implementation as this contract, e.g. src/MyToken.sol:MyToken"
+  )
+  .option(
+    "--wait",
+    "Wait until Filfox has indexed the contract before verifying, e.g. right after a deployment"
+  )
+  .option(
+    "--max-wait <seconds>",
+    `Longest time --wait waits for the contract (default: ${DEFAULT_WAIT_OPTIONS.maxWait / 1000})`
+  )
+  .option(
+    "--confirmations <count>",
+    "With --wait, wait for this many confirmations via --rpc-url instead of polling Filfox"
+  )
+  .option(
+    "--json",
+    "Print the result as JSON on stdout instead of progress messages"
+  )
   .action(async (address: string, contract: string, options) => {
-    // Validate chainId
-    const validChainIds = ["314", "314159"];
-    if (!validChainIds.includes(options.chain)) {
-      console.error(chalk.red(`Invalid chain ID: ${options.chain}`));
-      console.error(chalk.yellow("Valid options:"));
-      console.error(chalk.yellow("  314    - Filecoin Mainnet"));
-      console.error(chalk.yellow("  314159 - Filecoin Calibration Testnet"));
-      process.exit(1);
-    }
-    const spinner = ora("Starting verification process...").start();
+    const spinner = createSpinner("Starting verification process...", options);
 
     try {
+      const network = resolveNetwork(options);
+      const requestOptions = resolveRequestOptions(options);
+      const provider = createRpcProvider(options.rpcUrl, network);
+      const waitOptions = options.wait
+        ? resolveWaitOptions(options, provider, spinner)
+        : undefined;
       const [contractPath, contractName] = contract.split(":");
       if (!contractPath || !contractName) {
         throw new Error(
           "Contract must be in format src/Contract.sol:ContractName"
         );
       }
+      if (options.implementation && !/^[^:]+:[^:]+$/.test(options.implementation)) {
+        throw new Error(
+          "--implementation must be in format src/Contract.sol:ContractName"
+        );
+      }
+      if (options.implementation && !options.rpcUrl) {
+        throw new Error("--implementation requires --rpc-url to read the proxy");
+      }
 
       spinner.text = "Loading Foundry project...\n\n";
-      const project = new FoundryProject(options.root);
+      const project = new FoundryProject(options.root, {
+        profile: options.profile,
+        noCompile: !options.compile,
+        artifact: options.artifact,
+        buildInfo: options.buildInfo,
+      });
       await project.initialize();
 
       spinner.text = "Compiling contract and extracting metadata...\n\n";
-      const compilationResult = await project.compile(
+      const request = await prepareFoundryVerification(
+        project,
+        address,
         contractPath,
-        contractName
+        contractName,
+        {
+          constructorArgs: options.constructorArgs,
+          libraries: options.libraries,
+          includePaths: options.includePath,
+          license: options.license,
+        }
       );
 
-      spinner.text = "Preparing verification request...\n\n";
-      const verifier = new FilfoxVerifier(options.chain);
+      const imports = options.explainImports
+        ? new FilfoxVerifier(network).explainImports(request)
+        : undefined;
+      if (imports && !options.json) {
+        spinner.stop();
+        console.log(chalk.cyanBright("Import resolution:\n"));
+        formatImportReport(imports).forEach((line) => console.log(line));
+        console.log();
+        spinner.start();
+      }
+
+      if (options.preflight) {
+        spinner.text = "Recompiling locally and comparing bytecode...\n\n";
+        const report = await runFoundryPreflight(
+          project,
+          network,
+          request,
+          provider,
+          options.creationTx
+        );
+        const { message, details } = describePreflightReport(report);
+
+        if (!report.match) {
+          if (options.json) {
+            printJson({
+              success: false,
+              status: "preflightMismatch",
+              exitCode: EXIT_CODES.preflightMismatch,
+              address,
+              message,
+              preflight: report,
+              imports,
+            });
+          } else {
+            spinner.fail(`⚠️  ${message}`);
+            details.forEach((detail) => console.error(`   ${detail}`));
+          }
+          process.exit(EXIT_CODES.preflightMismatch);
+        }
+        spinner.succeed(`✅ ${message}`);
+        spinner.start();
+      }
+
+      if (options.dryRun || options.output) {
+        spinner.text = "Writing verification payload...\n\n";
+        const verifier = new FilfoxVerifier(network);
+        const warnings: string[] = [];
+        const body = await verifier.prepareRequestBody(request, warnings);
+        const output = writeVerificationPayload(
+          body,
+          options.output ?? defaultPayloadPath(address),
+          options.standardJson
+        );
+
+        if (options.json) {
+          printJson({
+            success: true,
+            status: "dryRun",
+            exitCode: EXIT_CODES.success,
+            address,
+            warnings,
+            ...output,
+            imports,
+          });
+          return;
+        }
+
+        warnings.forEach((warning) => spinner.warn(chalk.yellow(`⚠️  ${warning}`)));
+        spinner.succeed(`📝 Verification request written to ${output.requestPath}`);
+        if (output.standardJsonPath) {
+          spinner.succeed(
+            `📝 Standard JSON input written to ${output.standardJsonPath}`
+          );
+        }
+        return;
+      }
+
+      const submit = (verificationRequest: VerificationRequest) =>
+        waitOptions
+          ? verifyWhenIndexed(
+              network,
+              verificationRequest,
+              waitOptions,
+              requestOptions
+            )
+          : verifyContract(network, verificationRequest, requestOptions);
 
       spinner.text = "Verifying contract on Filfox...\n\n";
-      const result = await verifier.verify({
-        address,
-        language: "Solidity",
-        compiler: compilationResult.metadata.compiler.version,
-        optimize: compilationResult.metadata.settings.optimizer.enabled,
-        optimizeRuns: compilationResult.metadata.settings.optimizer.runs,
-        sourceFiles: Object.fromEntries(
-          Object.entries(compilationResult.sourceFiles).map(
-            ([filePath, content]) => [filePath, { content }]
+      const result = await submit(request);
+
+      // With an RPC endpoint, ERC-1967 proxies are detected and their implementation verified.
+      // A proxy that failed to verify is not checked for an implementation.
+      const proxy =
+        provider && isVerificationSuccessful(result)
+          ? await detectProxy(provider, address).catch(
+              (error) => {
+                if (options.implementation) throw error;
+                return undefined;
+              }
+            )
+          : undefined;
+      if (options.implementation && isVerificationSuccessful(result) && !proxy) {
+        throw new Error(`${address} is not an ERC-1967 proxy`);
+      }
+      let implementationResult: VerificationResult | undefined;
+      if (proxy && options.implementation) {
+        spinner.text = `Verifying the implementation at ${proxy.implementation}...\n\n`;
+        const [implementationPath, implementationName] =
+          options.implementation.split(":");
+        implementationResult = await submit(
+          await prepareFoundryVerification(
+            project,
+            proxy.implementation,
+            implementationPath,
+            implementationName,
+            {
+              libraries: options.libraries,
+              includePaths: options.includePath,
+              license: options.license,
+            }
           )
-        ),
-        license: "",
-        evmVersion: compilationResult.metadata.settings.evmVersion,
-        viaIR: compilationResult.metadata.settings.viaIR,
-        libraries: "",
-        metadata: compilationResult.metadata,
-        optimizerDetails: "{}",
-      });
+        );
+      }
 
-      console.log(chalk.cyanBright("Verification Result:\n\n"));
+      if (options.json) {
+        printJson({
+          ...toJsonResult(result),
+          imports,
+          proxy,
+          implementation: implementationResult && toJsonResult(implementationResult),
+        });
+      } else {
+        console.log(chalk.cyanBright("Verification Result:\n\n"));
+        handleVerificationResult(result, spinner);
 
-      handleVerificationResult(result, options.chain, address, spinner);
+        if (implementationResult) {
+          console.log(chalk.cyanBright("\nImplementation Verification Result:\n\n"));
+          handleVerificationResult(implementationResult, spinner);
+        } else if (proxy) {
+          spinner.info(
+            `🔗 ${address} is a ${proxy.kind} proxy of ${proxy.implementation}, verify the implementation with --implementation <path:Name>`
+          );
+        }
+      }
+      process.exitCode =
+        exitCodeFor(result) ||
+        (implementationResult ? exitCodeFor(implementationResult) : 0);
     } catch (error: any) {
-      spinner.fail(chalk.red("Verification failed with error:\n"));
-      console.error(error);
-      process.exit(1);
+      if (options.json) {
+        printJson({
+          success: false,
+          status: "error",
+          exitCode: EXIT_CODES.error,
+          address,
+          message: error.message,
+        });
+      } else {
+        spinner.fail(chalk.red("Verification failed with error:\n"));
+        console.error(error);
+      }
+      process.exit(EXIT_CODES.error);
     }
   });
 
 /**
- * Handles and displays verification results
+ * Provider of --rpc-url, pinned to the chain of the network: detecting the network
+ * of an unreachable endpoint would be retried forever and keep the process alive
  */
-const handleVerificationResult = (
-  result: any,
-  chainId: number,
+const createRpcProvider = (
+  rpcUrl: string | undefined,
+  network: FilfoxNetwork
+): JsonRpcProvider | undefined =>
+  rpcUrl
+    ? new JsonRpcProvider(rpcUrl, network.chainId, { staticNetwork: true })
+    : undefined;
+
+/**
+ * Builds the --wait policy from the command options, reporting polls on the spinner.
+ * Throws on invalid values.
+ */
+const resolveWaitOptions = (
+  options: {
+    maxWait?: string;
+    confirmations?: string;
+    creationTx?: string;
+  },
+  provider: Provider | undefined,
+  spinner: Ora
+): WaitOptions => {
+  if (options.confirmations && !provider) {
+    throw new Error("--confirmations requires --rpc-url");
+  }
+
+  const maxWait = parseIntegerOption(options.maxWait, "--max-wait", 1);
+  return {
+    maxWait: maxWait === undefined ? undefined : maxWait * 1000,
+    confirmations: parseIntegerOption(options.confirmations, "--confirmations", 1),
+    provider,
+    creationTx: options.creationTx,
+    onPoll: (message) => {
+      spinner.text = `${message}...\n\n`;
+    },
+  };
+};
+
+/**
+ * Compiles a Foundry contract and builds its Filfox verification request.
+ * Pass `compilationResult` when the contract was already compiled by the caller.
+ */
+export const prepareFoundryVerification = async (
+  project: FoundryProject,
   address: string,
+  contractPath: string,
+  contractName: string,
+  options: {
+    constructorArgs?: string;
+    libraries?: string[];
+    includePaths?: string[];
+    license?: string;
+    compilationResult?: CompilationResult;
+  } = {}
+): Promise<VerificationRequest> => {
+  const compilationResult =
+    options.compilationResult ??
+    (await project.compile(contractPath, contractName));
+
+  const constructorArgs = options.constructorArgs
+    ? encodeConstructorArgs(
+        compilationResult.metadata.output.abi,
+        loadConstructorArgs(options.constructorArgs)
+      )
+    : "";
+
+  const sourceFiles = Object.fromEntries(
+    Object.entries(compilationResult.sourceFiles).map(
+      ([filePath, content]) => [filePath, { content }]
+    )
+  );
+  const libraries = resolveLibraries(
+    {
+      ...compilationResult.metadata.settings.libraries,
+      ...flattenLibraries(compilationResult.input.settings?.libraries),
+      ...project.getConfiguredLibraries(),
+      ...parseLibraryOption(options.libraries),
+    },
+    compilationResult.linkReferences,
+    sourceFiles
+  );
+
+  return {
+    address,
+    language: "Solidity",
+    compiler: compilationResult.metadata.compiler.version,
+    // Settings of the build-info input, exactly as this contract was compiled
+    ...toCompilerSettings(compilationResult.input.settings),
+    sourceFiles,
+    license: options.license ?? "",
+    libraries,
+    metadata: compilationResult.metadata,
+    constructorArgs,
+    compilationTarget: `${contractPath}:${contractName}`,
+    includePaths: options.includePaths,
+    // The build-info holds the exact remappings the contract was compiled with
+    remappings:
+      compilationResult.input.settings?.remappings ??
+      project.getConfiguredRemappings(),
+  };
+};
+
+/**
+ * Recompiles the prepared payload and compares it with the on-chain or artifact bytecode
+ */
+const runFoundryPreflight = async (
+  project: FoundryProject,
+  network: FilfoxNetwork,
+  request: VerificationRequest,
+  provider: Provider | undefined,
+  creationTx: string | undefined
+): Promise<PreflightReport> => {
+  const [contractPath, contractName] = request.compilationTarget!.split(":");
+  const body = await new FilfoxVerifier(network).prepareRequestBody(request);
+
+  let deployedBytecode: string;
+  let linkReferences: LinkReferences | undefined;
+  let creationInput: string | undefined;
+  if (provider) {
+    deployedBytecode = await provider.getCode(request.address);
+    if (creationTx) {
+      creationInput = (await provider.getTransaction(creationTx))?.data;
+    }
+  } else {
+    ({ deployedBytecode, deployedLinkReferences: linkReferences } =
+      await project.compile(contractPath, contractName));
+  }
+
+  return preflightVerification(body, {
+    contract: request.compilationTarget!,
+    deployedBytecode,
+    onChain: !!provider,
+    linkReferences,
+    creationInput,
+  });
+};
+
+/**
+ * Handles and displays verification results
+ */
+export const handleVerificationResult = (
+  result: VerificationResult,
   spinner: Ora
 ): void => {
-  const explorerUrls = {
-    314159: "https://calibration.filfox.info/en/address/",
-    314: "https://filfox.info/en/address/",
-  };
+  const outcome = describeVerificationResult(result);
 
-  const explorerUrl = explorerUrls[chainId as keyof typeof explorerUrls];
+  for (const warning of result.warnings) {
+    spinner.warn(chalk.yellow(`⚠️  ${warning}`));
+  }
 
-  switch (result.errorCode) {
-    case 0:
-      spinner.succeed(
-        `✅ Contract "${result.contractName}" verified successfully!`
-      );
-      spinner.succeed(`🔗 View at: ${explorerUrl}${address}`);
-      break;
-    case 1:
-      spinner.fail("⚠️  Error: No source file provided.");
-      break;
-    case 2:
-      spinner.fail("⚠️  Error: Contract initCode not found.");
+  switch (result.status) {
+    case "verified":
+      spinner.succeed(`✅ ${outcome.message}`);
+      spinner.succeed(`🔗 View at: ${result.explorerUrl}`);
       break;
-    case 3:
-      spinner.fail("⚠️  Error: Compiler version format incorrect.");
-      spinner.fail("💡 Use long format (e.g., v0.7.6+commit.7338295f)");
-      break;
-    case 4:
-      spinner.fail("⚠️  Error: Verification failed - bytecode mismatch.");
-      spinner.fail("💡 Check source files and compiler settings.");
-      break;
-    case 5:
-      spinner.fail("⚠️  Error: Unsupported language (Solidity only).");
-      break;
-    case 6:
-      spinner.succeed(
-        `ℹ️  Contract already verified at: ${explorerUrl}${address}`
-      );
-      break;
-    case 7:
-      spinner.fail("⚠️  Compilation error in source files.");
-      spinner.fail(`📝 Details: ${result.errorMsg}`);
+    case "alreadyVerified":
+      spinner.succeed(`ℹ️  Contract already verified at: ${result.explorerUrl}`);
       break;
     default:
-      spinner.fail("⚠️  Unknown verification error occurred.");
+      spinner.fail(`⚠️  ${outcome.message}`);
+      for (const hint of outcome.hints) {
+        spinner.fail(`💡 ${hint}`);
+      }
       break;
   }
 };
@@ -0,0 +1,267 @@
+import { HardhatPluginError } from "hardhat/plugins";
+import { ContractDataExtractor } from "./utils";
+import { applyPathParams, getRequestOptions } from "./config";
+import { FilfoxVerifier } from "./verifier";
+import { getVerificationStatus } from "../services/filfox-verifier";
+import { loadLibrariesFile } from "../services/libraries";
+import { isFilfoxNetwork } from "../services/networks";
+import {
+  VerificationResult,
+  describeVerificationResult,
+  isVerificationSuccessful,
+} from "../services/verification-result";
+import {
+  FilfoxHardhatContext,
+  VerifyAllFilfoxParams,
+  VerifyContractParams,
+  VerifyFilfoxParams,
+} from "./types";
+
+/**
+ * Task actions shared by the Hardhat 2 tasks and the Hardhat 3 plugin
+ */
+
+const requireChainId = (context: FilfoxHardhatContext): number => {
+  if (!context.chainId) {
+    throw new Error("Chain ID not found");
+  }
+  return context.chainId;
+};
+
+const requireFilfoxChainId = (context: FilfoxHardhatContext): number => {
+  const chainId = requireChainId(context);
+  if (!isFilfoxNetwork(chainId)) {
+    throw new HardhatPluginError(
+      "@fil-b/filfox-verifier",
+      "Use regular hardhat verification for networks other than calibration, filecoin and the networks configured in `filfox.networks`"
+    );
+  }
+  return chainId;
+};
+
+export async function verifyFilfoxAction(
+  taskArgs: VerifyFilfoxParams,
+  context: FilfoxHardhatContext
+): Promise<void> {
+  const chainId = requireChainId(context);
+
+  const {
+    address,
+    constructorArgs,
+    libraries,
+    dryRun,
+    output,
+    standardJson,
+    preflight,
+    creationTx,
+    explainImports,
+    license,
+    wait,
+    maxWait,
+    confirmations,
+    skipImplementation,
+    deploymentsPath,
+    ignitionPath,
+    artifactsPath,
+  } = taskArgs;
+  const params = {
+    address,
+    chainId,
+    network: context.network,
+    deploymentsPath,
+    ignitionPath,
+    artifactsPath,
+    constructorArgs,
+    libraries,
+    preflight,
+    creationTx,
+    explainImports,
+    license,
+    wait,
+    maxWait,
+    confirmations,
+  };
+
+  if (dryRun || output) {
+    await FilfoxVerifier.writeVerificationPayload(
+      params,
+      { path: output, standardJsonPath: standardJson },
+      context
+    );
+    return;
+  }
+
+  const result = await FilfoxVerifier.verifyContract(params, context);
+  // A proxy that failed to verify is not checked for an implementation
+  if (!skipImplementation && isVerificationSuccessful(result)) {
+    await verifyProxyImplementation(params, context);
+  }
+}
+
+/**
+ * Verifies the implementation when the verified address is a proxy. Failures are
+ * reported without failing the verification of the proxy.
+ */
+const verifyProxyImplementation = async (
+  params: VerifyContractParams,
+  context: FilfoxHardhatContext
+): Promise<void> => {
+  try {
+    await FilfoxVerifier.verifyProxyImplementation(params, context);
+  } catch (error: any) {
+    console.log(`⚠️ Could not verify the proxy implementation: ${error.message}`);
+  }
+};
+
+export async function verifyAllFilfoxAction(
+  taskArgs: VerifyAllFilfoxParams,
+  context: FilfoxHardhatContext
+): Promise<void> {
+  const chainId = requireFilfoxChainId(context);
+  const requestOptions = getRequestOptions(context.config);
+
+  const { deploymentsPath, ignitionPath, artifactsPath } = taskArgs;
+  const deployments = ContractDataExtractor.listDeployments(
+    context.network,
+    applyPathParams(context.paths, taskArgs),
+    context
+  );
+
+  const report: Array<{ name: string; address: string; status: string }> = [];
+
+  for (const { name, address } of deployments) {
+    console.log(`\n🔍 Verifying ${name} at ${address}...`);
+
+    let status: string;
+    try {
+      const { verified } = await getVerificationStatus(
+        chainId,
+        address,
+        requestOptions
+      );
+      if (verified) {
+        console.log("ℹ️ Contract already verified, skipping.");
+        report.push({ name, address, status: "already verified" });
+        continue;
+      }
+
+      const result = await FilfoxVerifier.verifyContract(
+        {
+          address,
+          chainId,
+          network: context.network,
+          deploymentsPath,
+          ignitionPath,
+          artifactsPath,
+        },
+        context
+      );
+      const outcome = describeVerificationResult(result);
+      status = outcome.success ? outcome.label : `failed (${outcome.label})`;
+    } catch (error: any) {
+      console.log(`⚠️ Error: ${error.message}`);
+      status = "failed (extraction error)";
+    }
+
+    report.push({ name, address, status });
+  }
+
+  console.log("\n📋 Verification report:");
+  for (const { name, address, status } of report) {
+    const icon = status.startsWith("failed") ? "❌" : "✅";
+    console.log(`${icon} ${name}: ${status}`);
+    console.log(`   ${FilfoxVerifier.getExplorerUrl(chainId, address)}`);
+  }
+
+  const failed = report.filter(({ status }) => status.startsWith("failed"));
+  console.log(
+    `\n${report.length - failed.length}/${report.length} contracts verified.`
+  );
+  if (failed.length > 0) {
+    throw new HardhatPluginError(
+      "@fil-b/filfox-verifier",
+      `Verification on Filfox failed for ${failed.length} of ${report.length} contracts`
+    );
+  }
+}
+
+export async function verifyFilfoxStatusAction(
+  taskArgs: { address: string },
+  context: FilfoxHardhatContext
+) {
+  const chainId = requireFilfoxChainId(context);
+
+  const status = await getVerificationStatus(
+    chainId,
+    taskArgs.address,
+    getRequestOptions(context.config)
+  );
+
+  if (!status.verified) {
+    console.log(`❌ Contract at ${status.address} is not verified.`);
+    return status;
+  }
+
+  console.log(`✅ Contract "${status.contractName}" is verified.`);
+  console.log(`Compiler: ${status.compiler ?? "unknown"}`);
+  console.log(`License: ${status.license ?? "none"}`);
+  console.log("Check it out at:\n", status.explorerUrl);
+  return status;
+}
+
+/**
+ * Whether the built-in `verify` task should verify on Filfox instead
+ */
+export const isFilfoxContext = (context: FilfoxHardhatContext): boolean =>
+  !!context.chainId && isFilfoxNetwork(context.chainId);
+
+/**
+ * Verifies on Filfox with the arguments of hardhat-verify's `verify` task. Like
+ * hardhat-verify, a failed verification throws so that the task fails.
+ */
+export async function verifyOverrideAction(
+  taskArgs: {
+    address?: string;
+    /** Raw constructor argument values or a path to a file exporting them */
+    constructorArgs?: string | unknown[];
+    /** Path to a file exporting `{ Name: address }` */
+    librariesPath?: string;
+  },
+  context: FilfoxHardhatContext
+): Promise<VerificationResult> {
+  if (!taskArgs.address) {
+    throw new Error("The address of the contract to verify is required");
+  }
+
+  const libraries = taskArgs.librariesPath
+    ? Object.entries(loadLibrariesFile(taskArgs.librariesPath))
+        .map(([name, address]) => `${name}=${address}`)
+        .join(",")
+    : undefined;
+
+  const constructorArgs =
+    Array.isArray(taskArgs.constructorArgs) &&
+    taskArgs.constructorArgs.length === 0
+      ? undefined
+      : taskArgs.constructorArgs || undefined;
+
+  const params = {
+    address: taskArgs.address,
+    chainId: requireChainId(context),
+    network: context.network,
+    constructorArgs,
+    libraries,
+  };
+
+  console.log(`🔁 ${context.network} is a Filecoin network, verifying on Filfox`);
+  const result = await FilfoxVerifier.verifyContract(params, context);
+  if (!isVerificationSuccessful(result)) {
+    throw new HardhatPluginError(
+      "@fil-b/filfox-verifier",
+      `Verification on Filfox failed (${describeVerificationResult(result).label})`
+    );
+  }
+
+  await verifyProxyImplementation(params, context);
+  return result;
+}
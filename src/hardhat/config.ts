@@ -0,0 +1,101 @@
+import path from "path";
+import { DEFAULT_REQUEST_OPTIONS, RequestOptions } from "../services/http";
+import {
+  FilfoxConfig,
+  FilfoxPaths,
+  FilfoxUserConfig,
+  PathParams,
+} from "./types";
+
+/**
+ * Resolves the `filfox` section of the Hardhat config, shared by Hardhat 2 and 3
+ */
+export const resolveFilfoxConfig = (
+  userConfig: FilfoxUserConfig = {}
+): FilfoxConfig => ({
+  networks: { ...userConfig.networks },
+  timeout: userConfig.timeout ?? DEFAULT_REQUEST_OPTIONS.timeout,
+  retries: userConfig.retries ?? DEFAULT_REQUEST_OPTIONS.retries,
+  retryDelay: userConfig.retryDelay ?? DEFAULT_REQUEST_OPTIONS.retryDelay,
+});
+
+/**
+ * Returns a message for every invalid value of the `filfox` section
+ */
+export const validateFilfoxConfig = (
+  userConfig: FilfoxUserConfig = {}
+): Array<{ path: string[]; message: string }> =>
+  (["timeout", "retries", "retryDelay"] as const)
+    .filter((key) => {
+      const value = userConfig[key];
+      return (
+        value !== undefined && (!Number.isInteger(value) || value < 0)
+      );
+    })
+    .map((key) => ({
+      path: ["filfox", key],
+      message: `Expected a non-negative integer for filfox.${key}`,
+    }));
+
+/**
+ * Timeout and retry policy of the `filfox` config, reporting retries on the console
+ */
+export const getRequestOptions = (config?: FilfoxConfig): RequestOptions => {
+  const { timeout, retries, retryDelay } = config ?? {};
+  return {
+    timeout,
+    retries,
+    retryDelay,
+    onRetry: ({ attempt, delay, reason }) =>
+      console.log(
+        `⏳ ${reason}, retrying in ${Math.ceil(delay / 1000)}s (retry ${attempt})`
+      ),
+  };
+};
+
+/**
+ * Resolves the plugin directories from the `paths` of the Hardhat config, including
+ * the `deployments` of hardhat-deploy and the `ignition` of Hardhat Ignition.
+ * Without a config, the Hardhat defaults below the working directory are used.
+ */
+export const resolveFilfoxPaths = (
+  paths: {
+    root: string;
+    sources?: string;
+    artifacts?: string;
+    cache?: string;
+    deployments?: string;
+    ignition?: string;
+  } = { root: process.cwd() }
+): FilfoxPaths => {
+  const { root } = paths;
+  // Paths added by plugins stay relative to the root when the plugin isn't loaded
+  const resolve = (value: string | undefined, fallback: string) =>
+    path.resolve(root, value ?? fallback);
+
+  return {
+    root,
+    deployments: resolve(paths.deployments, "deployments"),
+    ignition: resolve(paths.ignition, "ignition"),
+    // Artifacts mirror the source names, which are relative to the root
+    artifacts: path.join(
+      resolve(paths.artifacts, "artifacts"),
+      path.relative(root, resolve(paths.sources, "contracts"))
+    ),
+    cache: resolve(paths.cache, "cache"),
+  };
+};
+
+/**
+ * Applies the path task params over the configured paths, or over the defaults
+ * when no Hardhat runtime is given
+ */
+export const applyPathParams = (
+  paths: FilfoxPaths = resolveFilfoxPaths(),
+  { deploymentsPath, ignitionPath, artifactsPath }: PathParams = {}
+): FilfoxPaths => ({
+  ...paths,
+  deployments: deploymentsPath || paths.deployments,
+  ignition: ignitionPath || paths.ignition,
+  artifacts: artifactsPath || paths.artifacts,
+});
@@ -0,0 +1,30 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { resolveFilfoxConfig, resolveFilfoxPaths } from "./config";
+import { FilfoxHardhatContext } from "./types";
+
+/**
+ * Builds the plugin context of a Hardhat 2 runtime environment
+ */
+export const fromHardhatRuntime = (
+  hre: HardhatRuntimeEnvironment
+): FilfoxHardhatContext => ({
+  network: hre.network.name,
+  chainId: hre.network.config.chainId,
+  provider: hre.network.provider,
+  config: hre.config.filfox ?? resolveFilfoxConfig(),
+  paths: resolveFilfoxPaths(hre.config.paths),
+  readArtifact: (fullyQualifiedName) =>
+    hre.artifacts.readArtifact(fullyQualifiedName),
+});
+
+/**
+ * Accepts either a Hardhat 2 runtime environment or an already built context
+ */
+export const toFilfoxContext = (
+  hre?: HardhatRuntimeEnvironment | FilfoxHardhatContext
+): FilfoxHardhatContext | undefined => {
+  if (!hre) {
+    return undefined;
+  }
+  return "readArtifact" in hre ? hre : fromHardhatRuntime(hre);
+};
@@ -1,173 +1,185 @@
-import { task } from "hardhat/config";
-import { HardhatRuntimeEnvironment } from "hardhat/types";
-import { ContractDataExtractor } from "./utils";
-import { VerifyContractParams, VerifyFilfoxParams } from "./types";
-
-export class FilfoxVerifier {
-  private static readonly FILFOX_NETWORKS = {
-    314: "https://filfox.info/api/v1/tools/verifyContract",
-    314159: "https://calibration.filfox.info/api/v1/tools/verifyContract",
-  };
-
-  static async verifyContract(
-    params: VerifyContractParams,
-    hre?: HardhatRuntimeEnvironment
-  ): Promise<void> {
-    const {
-      address,
-      chainId,
-      network,
-      deploymentsPath = "./deployments",
-    } = params;
-
-    if (!this.FILFOX_NETWORKS[chainId as keyof typeof this.FILFOX_NETWORKS]) {
-      throw new Error(
-        "Use regular hardhat verification for networks other than calibration and filecoin"
-      );
-    }
-
-    const verificationData = await ContractDataExtractor.extractContractData(
-      network,
-      address,
-      deploymentsPath,
-      hre
-    );
-
-    const url =
-      this.FILFOX_NETWORKS[chainId as keyof typeof this.FILFOX_NETWORKS];
-    const headers = {
-      "Content-Type": "application/json",
-    };
-
-    try {
-      const response = await fetch(url, {
-        method: "POST",
-        headers: headers,
-        body: JSON.stringify(verificationData),
-      });
-
-      const result = await response.json();
-
-      this.handleVerificationResult({
-        result,
-        network,
-        address: verificationData.address,
-      });
-    } catch (error: any) {
-      console.error("⚠️ Error verifying contract: ", error.cause);
-      console.log(
-        "Please contact us on [Telegram](https://t.me/Filfoxofficial) if you encounter this error."
-      );
-    }
-  }
-
-  private static handleVerificationResult({
-    result,
-    network,
-    address,
-  }: {
-    result: any;
-    network: string;
-    address: string;
-  }) {
-    const explorerUrls = {
-      calibration: "https://calibration.filfox.info/en/address/",
-      filecoin: "https://filfox.info/en/address/",
-    };
-
-    const explorerUrl = explorerUrls[network as keyof typeof explorerUrls];
-
-    switch (result.errorCode) {
-      case 0:
-        console.log(
-          `✅ Your contract "${result.contractName}" is now verified.`
-        );
-        console.log("Check it out at: ");
-        console.log(`${explorerUrl}${address}`);
-        break;
-
-      case 1:
-        console.log("⚠️ Error: No source file was provided.");
-        break;
-
-      case 2:
-        console.log("⚠️ Error: Contract initCode not found.");
-        console.log(
-          "Please contact us on [Telegram](https://t.me/Filfoxofficial) if you encounter this error."
-        );
-        break;
-
-      case 3:
-        console.log("⚠️ Error: Load remote compiler failed.");
-        console.log("The compiler version string must be in the long format.");
-        console.log(
-          "For example, use v0.7.6+commit.7338295f instead of v0.7.6."
-        );
-        console.log(
-          "Please try again later with the correct compiler version."
-        );
-        break;
-
-      case 4:
-        console.log(
-          `⚠️ Error: Verify failed for contract "${result.contractName}".`
-        );
-        console.log("Compiled bytecode doesn't match the contract's initCode.");
-        console.log(
-          "Please make sure all source files and compiler configurations are correct."
-        );
-        break;
-
-      case 5:
-        console.log("⚠️ Error: Unsupported language.");
-        console.log("Only Solidity is supported for now.");
-        break;
-
-      case 6:
-        console.log("ℹ️ Your contract is already verified.");
-        console.log("Check it out at:\n", `${explorerUrl}${address}`);
-        break;
-
-      case 7:
-        console.log(
-          "⚠️ Compilation error: Something is wrong with your source files."
-        );
-        console.log(`Error message: ${result.errorMsg}`);
-        console.log("Please fix the issue and try again.");
-        break;
-
-      default:
-        console.log("⚠️ Unknown error occurred during verification.");
-        break;
-    }
-  }
-}
+import { extendConfig, extendEnvironment, task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment, RunSuperFunction } from "hardhat/types";
+import "./type-extensions";
+import { resolveFilfoxConfig } from "./config";
+import { fromHardhatRuntime } from "./context";
+import { FilfoxVerifier } from "./verifier";
+import {
+  isFilfoxContext,
+  verifyAllFilfoxAction,
+  verifyFilfoxAction,
+  verifyFilfoxStatusAction,
+  verifyOverrideAction,
+} from "./actions";
+import { DEFAULT_WAIT_OPTIONS } from "../services/wait";
+import { registerFilfoxNetworks } from "../services/networks";
+import { VerifyAllFilfoxParams, VerifyFilfoxParams } from "./types";
+
+export { FilfoxVerifier } from "./verifier";
+export type { HardhatEnvironment } from "./verifier";
+
+extendConfig((config, userConfig) => {
+  config.filfox = resolveFilfoxConfig(userConfig.filfox);
+});
+
+extendEnvironment((hre) => {
+  registerFilfoxNetworks(hre.config.filfox.networks);
+});
 
 export const HardhatFilfoxVerifierTask = task(
   "verifyfilfox",
   "Verifies a contract on Filfox"
 )
   .addParam("address", "The address of the contract to verify")
+  .addOptionalParam(
+    "constructorArgs",
+    "ABI-encoded constructor arguments (0x...) or path to a JSON/.js file exporting an array of arguments"
+  )
+  .addOptionalParam(
+    "libraries",
+    "Comma separated linked library addresses in format Name=0xAddress"
+  )
+  .addFlag(
+    "dryRun",
+    "Prepare the verification request and write it to disk without contacting Filfox"
+  )
+  .addOptionalParam(
+    "output",
+    "File the verification request is written to (implies --dry-run)"
+  )
+  .addOptionalParam(
+    "standardJson",
+    "Also write the solc standard JSON input of a dry run to this file"
+  )
+  .addOptionalParam(
+    "license",
+    "License sent to Filfox, e.g. MIT (default: the SPDX-License-Identifier of the contract)"
+  )
+  .addFlag(
+    "explainImports",
+    "Print how each import was resolved and which source files were pruned"
+  )
+  .addFlag(
+    "preflight",
+    "Recompile the payload locally and compare it with the deployed bytecode before submitting"
+  )
+  .addOptionalParam(
+    "creationTx",
+    "Deployment transaction used by --preflight to check the constructor arguments"
+  )
+  .addFlag(
+    "wait",
+    "Wait until Filfox has indexed the contract before verifying, e.g. right after a deployment"
+  )
+  .addOptionalParam(
+    "maxWait",
+    "Longest time --wait waits for the contract, in seconds",
+    DEFAULT_WAIT_OPTIONS.maxWait / 1000,
+    types.int
+  )
+  .addOptionalParam(
+    "confirmations",
+    "With --wait, wait for this many confirmations of the network instead of polling Filfox",
+    undefined,
+    types.int
+  )
+  .addFlag(
+    "skipImplementation",
+    "Don't verify the implementation when the address is an ERC-1967 proxy"
+  )
+  .addOptionalParam(
+    "deploymentsPath",
+    "Path of the hardhat-deploy deployments directory (default: paths.deployments)"
+  )
+  .addOptionalParam(
+    "ignitionPath",
+    "Path of the Ignition directory holding deployments/chain-<id> (default: paths.ignition)"
+  )
+  .addOptionalParam(
+    "artifactsPath",
+    "Path of the artifacts matched against the deployed bytecode (default: the artifacts of paths.sources)"
+  )
   .setAction(
-    async (taskArgs: VerifyFilfoxParams, hre: HardhatRuntimeEnvironment) => {
-      const networkName = hre.network.name;
-      const chainId = hre.network.config.chainId;
+    async (taskArgs: VerifyFilfoxParams, hre: HardhatRuntimeEnvironment) =>
+      verifyFilfoxAction(taskArgs, fromHardhatRuntime(hre))
+  );
 
-      if (!chainId) {
-        throw new Error("Chain ID not found");
-      }
+export const HardhatFilfoxVerifyAllTask = task(
+  "verifyfilfox-all",
+  "Verifies every deployed contract of the network on Filfox"
+)
+  .addOptionalParam(
+    "deploymentsPath",
+    "Path of the hardhat-deploy deployments directory (default: paths.deployments)"
+  )
+  .addOptionalParam(
+    "ignitionPath",
+    "Path of the Ignition directory holding deployments/chain-<id> (default: paths.ignition)"
+  )
+  .setAction(
+    async (taskArgs: VerifyAllFilfoxParams, hre: HardhatRuntimeEnvironment) =>
+      verifyAllFilfoxAction(taskArgs, fromHardhatRuntime(hre))
+  );
+
+export const HardhatFilfoxStatusTask = task(
+  "verifyfilfox:status",
+  "Checks whether a contract is already verified on Filfox"
+)
+  .addParam("address", "The address of the contract to check")
+  .setAction(
+    async (taskArgs: VerifyFilfoxParams, hre: HardhatRuntimeEnvironment) =>
+      verifyFilfoxStatusAction(taskArgs, fromHardhatRuntime(hre))
+  );
 
-      const { address } = taskArgs;
+/**
+ * Arguments of the `verify` task of @nomicfoundation/hardhat-verify
+ */
+interface HardhatVerifyTaskArgs {
+  address?: string;
+  constructorArgsParams: string[];
+  constructorArgs?: string;
+  libraries?: string;
+}
 
-      await FilfoxVerifier.verifyContract(
+/**
+ * Whether hardhat-verify, an optional peer dependency, is installed
+ */
+const isHardhatVerifyInstalled = (): boolean => {
+  try {
+    require.resolve("@nomicfoundation/hardhat-verify");
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+if (isHardhatVerifyInstalled()) {
+  // Defines `verify` before it is overridden, whatever the import order of the config
+  require("@nomicfoundation/hardhat-verify");
+
+  // `npx hardhat verify` verifies on Filfox for Filecoin networks
+  task("verify").setAction(
+    async (
+      taskArgs: HardhatVerifyTaskArgs,
+      hre: HardhatRuntimeEnvironment,
+      runSuper: RunSuperFunction<HardhatVerifyTaskArgs>
+    ) => {
+      const context = fromHardhatRuntime(hre);
+      if (!isFilfoxContext(context)) {
+        return runSuper(taskArgs);
+      }
+
+      return verifyOverrideAction(
         {
-          address,
-          chainId,
-          network: networkName,
+          address: taskArgs.address,
+          constructorArgs:
+            taskArgs.constructorArgs ?? taskArgs.constructorArgsParams,
+          librariesPath: taskArgs.libraries,
         },
-        hre
+        context
       );
     }
   );
+}
 
 export default FilfoxVerifier;
@@ -1,52 +1,154 @@
-export interface SourceFile {
-  content: string;
-}
+import { Eip1193Provider } from "ethers";
+import { SolcSettings } from "../../services/compiler-settings";
+import { SourceFile } from "../../services/filfox-verifier";
+import { LinkReferences } from "../../services/libraries";
+import { FilfoxNetworkConfig } from "../../services/networks";
+
+export type {
+  SourceFile,
+  VerificationRequest,
+} from "../../services/filfox-verifier";
 
 export interface SolcInputData {
   language: string;
   sources: Record<string, SourceFile>;
-  settings: {
-    optimizer: {
-      enabled: boolean;
-      runs: number;
-    };
-    evmVersion: string;
+  settings: SolcSettings & {
     outputSelection: Record<string, Record<string, string[]>>;
-    metadata: {
-      useLiteralContent: boolean;
-    };
     remappings: string[];
   };
 }
 
 export interface DeploymentData {
   address: string;
+  abi?: any[];
+  args?: any[];
+  libraries?: Record<string, string>;
   solcInputHash: string;
   metadata: string;
+  /** Implementation address, set on the proxied deployment of a hardhat-deploy proxy */
+  implementation?: string;
+}
+
+/**
+ * `.openzeppelin/<network>.json` manifest written by OpenZeppelin upgrades
+ */
+export interface UpgradesManifest {
+  admin?: { address: string; txHash?: string };
+  proxies?: Array<{ address: string; txHash?: string; kind: string }>;
+  impls?: Record<string, { address: string; txHash?: string }>;
 }
 
-export interface VerifyFilfoxParams {
+export interface UpgradesDeployment {
   address: string;
+  role: "proxy" | "implementation" | "admin";
+  /** Proxy kind: transparent, uups or beacon */
+  kind?: string;
+  txHash?: string;
 }
 
-export interface VerifyContractParams {
+export interface DeployedContract {
+  name: string;
   address: string;
-  chainId: number;
-  network: string;
+}
+
+export interface VerifyFilfoxParams extends PathParams {
+  address: string;
+  constructorArgs?: string;
+  libraries?: string;
+  dryRun?: boolean;
+  output?: string;
+  standardJson?: string;
+  preflight?: boolean;
+  creationTx?: string;
+  explainImports?: boolean;
+  license?: string;
+  wait?: boolean;
+  /** Longest time `wait` waits for the contract, in seconds */
+  maxWait?: number;
+  confirmations?: number;
+  /** Don't verify the implementation when the address is an ERC-1967 proxy */
+  skipImplementation?: boolean;
+}
+
+/**
+ * Task params overriding the directories of the Hardhat config
+ */
+export interface PathParams {
+  /** hardhat-deploy deployments directory (default: `paths.deployments`) */
   deploymentsPath?: string;
+  /** Ignition directory holding `deployments/chain-<id>` (default: `paths.ignition`) */
+  ignitionPath?: string;
+  /** Directory searched for artifacts matching the deployed bytecode */
+  artifactsPath?: string;
 }
 
-export interface VerificationRequest {
+export interface VerifyAllFilfoxParams extends PathParams {}
+
+export interface VerifyContractParams extends PathParams {
   address: string;
-  language: string;
-  compiler: string;
-  optimize: boolean;
-  optimizeRuns: number;
-  sourceFiles: Record<string, SourceFile>;
-  license: string;
-  evmVersion: string;
-  viaIR: boolean;
-  libraries: string;
-  metadata: any;
-  optimizerDetails: string;
+  chainId: number;
+  network: string;
+  /** ABI-encoded hex, a path to a JSON/.js file or the raw argument values */
+  constructorArgs?: string | unknown[];
+  libraries?: string;
+  preflight?: boolean;
+  creationTx?: string;
+  explainImports?: boolean;
+  license?: string;
+  wait?: boolean;
+  /** Longest time `wait` waits for the contract, in seconds */
+  maxWait?: number;
+  confirmations?: number;
+}
+
+export interface ExtractionOverrides {
+  constructorArgs?: string | unknown[];
+  libraries?: string;
+}
+
+export interface FilfoxUserConfig {
+  networks?: Record<number, FilfoxNetworkConfig>;
+  /** Timeout of each request to Filfox in milliseconds */
+  timeout?: number;
+  /** Retries on network errors, rate limits and server errors */
+  retries?: number;
+  /** Base delay of the exponential backoff in milliseconds */
+  retryDelay?: number;
+}
+
+export interface FilfoxConfig {
+  networks: Record<number, FilfoxNetworkConfig>;
+  timeout: number;
+  retries: number;
+  retryDelay: number;
+}
+
+/**
+ * Directories the plugin reads deployments and artifacts from, resolved from the
+ * `paths` of the Hardhat config
+ */
+export interface FilfoxPaths {
+  root: string;
+  /** hardhat-deploy deployments, `paths.deployments` */
+  deployments: string;
+  /** Ignition modules and deployments, `paths.ignition` */
+  ignition: string;
+  /** Artifacts of the project sources, `<paths.artifacts>/<paths.sources relative to the root>` */
+  artifacts: string;
+  cache: string;
+}
+
+/**
+ * The parts of the Hardhat runtime used by the plugin, built from a Hardhat 2
+ * runtime environment or from a Hardhat 3 network connection
+ */
+export interface FilfoxHardhatContext {
+  network: string;
+  chainId?: number;
+  provider: Eip1193Provider;
+  config: FilfoxConfig;
+  paths: FilfoxPaths;
+  readArtifact(
+    fullyQualifiedName: string
+  ): Promise<{ abi?: readonly any[]; linkReferences?: LinkReferences }>;
 }
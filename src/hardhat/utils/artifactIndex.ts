@@ -0,0 +1,243 @@
+import fs from "fs";
+import path from "path";
+import {
+  ByteRange,
+  diffBytes,
+  immutableRanges,
+  linkRanges,
+  maskRanges,
+  stripMetadata,
+} from "../../services/bytecode";
+import { ArtifactBuildInfo, readArtifactBuildInfo } from "./buildInfo";
+
+/**
+ * Deployed bytecode of a compiled contract, prepared for matching
+ */
+export interface IndexedArtifact {
+  contractName: string;
+  sourceName: string;
+  artifactPath: string;
+  mtimeMs: number;
+  /** Deployed bytecode without the metadata hash, immutables and library placeholders zeroed */
+  code: string;
+  /** Immutable and library ranges, zeroed in the on-chain code before comparing */
+  ranges: ByteRange[];
+}
+
+export interface PartialMatch {
+  artifact: IndexedArtifact;
+  /** Share of identical bytes, between 0 and 1 */
+  similarity: number;
+}
+
+export interface ArtifactIndex {
+  artifactsPath: string;
+  artifacts: IndexedArtifact[];
+  /** Artifacts by length of their prepared bytecode */
+  byLength: Map<number, IndexedArtifact[]>;
+}
+
+const CACHE_VERSION = 1;
+
+/** Indexes built during this process, by artifacts directory */
+const indexes = new Map<string, ArtifactIndex>();
+
+/**
+ * Loads the bytecode index of an artifacts directory. Entries are kept in memory and
+ * in `cachePath`, only artifacts modified since they were indexed are read again.
+ */
+export function loadArtifactIndex(
+  artifactsPath: string,
+  cachePath?: string
+): ArtifactIndex {
+  const resolvedPath = path.resolve(artifactsPath);
+  const cached = new Map(
+    (indexes.get(resolvedPath)?.artifacts ?? readCache(cachePath)).map(
+      (artifact) => [artifact.artifactPath, artifact]
+    )
+  );
+
+  const buildInfos = new Map<string, ArtifactBuildInfo>();
+  let changed = false;
+  const artifacts = listArtifactFiles(resolvedPath).flatMap(
+    ({ artifactPath, mtimeMs }) => {
+      const entry = cached.get(artifactPath);
+      if (entry && entry.mtimeMs === mtimeMs) {
+        return [entry];
+      }
+
+      changed = true;
+      const indexed = indexArtifact(artifactPath, mtimeMs, buildInfos);
+      return indexed ? [indexed] : [];
+    }
+  );
+
+  const index: ArtifactIndex = {
+    artifactsPath: resolvedPath,
+    artifacts,
+    byLength: new Map(),
+  };
+  for (const artifact of artifacts) {
+    const sameLength = index.byLength.get(artifact.code.length) ?? [];
+    index.byLength.set(artifact.code.length, [...sameLength, artifact]);
+  }
+
+  indexes.set(resolvedPath, index);
+  if (changed || artifacts.length !== cached.size) {
+    writeCache(cachePath, artifacts);
+  }
+
+  return index;
+}
+
+/**
+ * Finds the artifact whose deployed bytecode matches the on-chain bytecode, ignoring
+ * the metadata hash, immutables and linked library addresses. Without an exact match,
+ * the closest artifacts are returned.
+ */
+export function matchBytecode(
+  index: ArtifactIndex,
+  bytecode: string,
+  limit = 3
+): { match?: IndexedArtifact; closest: PartialMatch[] } {
+  const target = stripMetadata(bytecode);
+
+  const match = (index.byLength.get(target.length) ?? []).find(
+    (artifact) => maskRanges(target, artifact.ranges) === artifact.code
+  );
+  if (match) {
+    return { match, closest: [] };
+  }
+
+  const closest = index.artifacts
+    .map((artifact) => ({
+      artifact,
+      similarity: similarity(maskRanges(target, artifact.ranges), artifact.code),
+    }))
+    .filter(({ similarity }) => similarity > 0)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+
+  return { closest };
+}
+
+/**
+ * Describes partial matches, e.g. `contracts/Box.sol:Box (98.2% identical)`
+ */
+export function formatPartialMatches(matches: PartialMatch[]): string[] {
+  return matches.map(
+    ({ artifact, similarity }) =>
+      `${artifact.sourceName}:${artifact.contractName} (${(similarity * 100).toFixed(1)}% identical)`
+  );
+}
+
+const similarity = (left: string, right: string): number => {
+  const length = Math.max(left.length, right.length) / 2;
+  return length === 0 ? 0 : 1 - diffBytes(left, right).length / length;
+};
+
+const indexArtifact = (
+  artifactPath: string,
+  mtimeMs: number,
+  buildInfos: Map<string, ArtifactBuildInfo>
+): IndexedArtifact | undefined => {
+  let artifact: any;
+  try {
+    artifact = JSON.parse(fs.readFileSync(artifactPath, "utf8"));
+  } catch (error) {
+    return undefined;
+  }
+
+  if (!artifact.deployedBytecode || artifact.deployedBytecode === "0x") {
+    return undefined;
+  }
+
+  const ranges = [
+    ...linkRanges(artifact.deployedLinkReferences),
+    ...immutableRanges(
+      readImmutableReferences(artifactPath, artifact, buildInfos)
+    ),
+  ];
+
+  return {
+    contractName: artifact.contractName ?? path.basename(artifactPath, ".json"),
+    sourceName: artifact.sourceName,
+    artifactPath,
+    mtimeMs,
+    code: maskRanges(stripMetadata(artifact.deployedBytecode), ranges),
+    ranges,
+  };
+};
+
+/**
+ * Reads the immutable references of an artifact. Hardhat 3 artifacts include them,
+ * Hardhat 2 ones only through their build info.
+ */
+const readImmutableReferences = (
+  artifactPath: string,
+  artifact: any,
+  buildInfos: Map<string, ArtifactBuildInfo>
+) => {
+  if (artifact.immutableReferences) {
+    return artifact.immutableReferences;
+  }
+
+  try {
+    return readArtifactBuildInfo(artifactPath, artifact, buildInfos).output
+      ?.contracts?.[artifact.inputSourceName ?? artifact.sourceName]?.[
+      artifact.contractName
+    ]?.evm?.deployedBytecode?.immutableReferences;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+const listArtifactFiles = (
+  dir: string
+): Array<{ artifactPath: string; mtimeMs: number }> =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap((item) => {
+    const itemPath = path.join(dir, item.name);
+    // Build infos hold whole compilations, not artifacts
+    if (item.isDirectory() && item.name === "build-info") {
+      return [];
+    }
+    if (item.isDirectory()) {
+      return listArtifactFiles(itemPath);
+    }
+    if (!item.name.endsWith(".json") || item.name.endsWith(".dbg.json")) {
+      return [];
+    }
+    return [{ artifactPath: itemPath, mtimeMs: fs.statSync(itemPath).mtimeMs }];
+  });
+
+const readCache = (cachePath?: string): IndexedArtifact[] => {
+  if (!cachePath || !fs.existsSync(cachePath)) {
+    return [];
+  }
+
+  try {
+    const cache = JSON.parse(fs.readFileSync(cachePath, "utf8"));
+    return cache.version === CACHE_VERSION ? cache.artifacts : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+const writeCache = (
+  cachePath: string | undefined,
+  artifacts: IndexedArtifact[]
+): void => {
+  if (!cachePath) {
+    return;
+  }
+
+  try {
+    fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+    fs.writeFileSync(
+      cachePath,
+      JSON.stringify({ version: CACHE_VERSION, artifacts })
+    );
+  } catch (error) {
+    // The cache only speeds up the next run
+  }
+};
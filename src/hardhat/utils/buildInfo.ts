@@ -0,0 +1,72 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * The solc input and output an artifact was compiled from
+ */
+export interface ArtifactBuildInfo {
+  solcLongVersion: string;
+  input: any;
+  output: any;
+}
+
+/**
+ * Reads the build info of an artifact. Hardhat 2 points to it from the `<Name>.dbg.json`
+ * file next to the artifact. Hardhat 3 artifacts carry a `buildInfoId` instead, naming
+ * `build-info/<id>.json` (the input) and `build-info/<id>.output.json` in the artifacts root.
+ * Build infos already read are taken from `cache`.
+ */
+export function readArtifactBuildInfo(
+  artifactPath: string,
+  artifact: { buildInfoId?: string },
+  cache: Map<string, ArtifactBuildInfo> = new Map()
+): ArtifactBuildInfo {
+  const buildInfoPath = artifact.buildInfoId
+    ? findBuildInfoById(artifactPath, artifact.buildInfoId)
+    : readDebugFile(artifactPath);
+
+  if (!fs.existsSync(buildInfoPath)) {
+    throw new Error(`Build info file not found at ${buildInfoPath}`);
+  }
+
+  if (!cache.has(buildInfoPath)) {
+    const buildInfo = JSON.parse(fs.readFileSync(buildInfoPath, "utf8"));
+    const outputPath = buildInfoPath.replace(/\.json$/, ".output.json");
+    const output =
+      buildInfo.output ??
+      (fs.existsSync(outputPath)
+        ? JSON.parse(fs.readFileSync(outputPath, "utf8")).output
+        : undefined);
+    cache.set(buildInfoPath, { ...buildInfo, output });
+  }
+
+  return cache.get(buildInfoPath)!;
+}
+
+const readDebugFile = (artifactPath: string): string => {
+  const dbgPath = artifactPath.replace(/\.json$/, ".dbg.json");
+  if (!fs.existsSync(dbgPath)) {
+    throw new Error(`Debug file not found at ${dbgPath}`);
+  }
+
+  const { buildInfo } = JSON.parse(fs.readFileSync(dbgPath, "utf8"));
+  return path.resolve(path.dirname(dbgPath), buildInfo);
+};
+
+/**
+ * Looks for `build-info/<id>.json` in the directories above the artifact, as
+ * artifacts are nested by source name below the artifacts root
+ */
+const findBuildInfoById = (artifactPath: string, buildInfoId: string): string => {
+  const fileName = path.join("build-info", `${buildInfoId}.json`);
+  let dir = path.dirname(path.resolve(artifactPath));
+  while (!fs.existsSync(path.join(dir, fileName))) {
+    if (path.dirname(dir) === dir) {
+      throw new Error(
+        `Build info ${buildInfoId} of ${artifactPath} not found in a build-info directory above it`
+      );
+    }
+    dir = path.dirname(dir);
+  }
+  return path.join(dir, fileName);
+};
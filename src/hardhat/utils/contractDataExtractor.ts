@@ -1,77 +1,326 @@
-import { HardhatRuntimeEnvironment } from "hardhat/types";
 import fs from "fs";
 import path from "path";
-import { DeploymentData, SolcInputData, VerificationRequest } from "../types";
+import {
+  DeployedContract,
+  DeploymentData,
+  ExtractionOverrides,
+  FilfoxHardhatContext,
+  FilfoxPaths,
+  SolcInputData,
+  UpgradesDeployment,
+  UpgradesManifest,
+  VerificationRequest,
+} from "../types";
+import { toCompilerSettings } from "../../services/compiler-settings";
+import {
+  formatPartialMatches,
+  loadArtifactIndex,
+  matchBytecode,
+} from "./artifactIndex";
+import { readArtifactBuildInfo } from "./buildInfo";
+import {
+  encodeConstructorArgs,
+  loadConstructorArgs,
+} from "../../services/constructor-args";
+import {
+  LibraryAddresses,
+  LinkReferences,
+  parseLibraryOption,
+  resolveLibraries,
+} from "../../services/libraries";
+
+/**
+ * The deployment record of an address was not found by an extraction strategy,
+ * the next strategy is tried. Any other error stops the extraction.
+ */
+export class DeploymentNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeploymentNotFoundError";
+  }
+}
+
+/**
+ * Overrides with the `--libraries` option already parsed
+ */
+type ParsedOverrides = Omit<ExtractionOverrides, "libraries"> & {
+  libraries: LibraryAddresses;
+};
 
 export class ContractDataExtractor {
   public static async extractContractData(
     network: string,
     address: string,
-    deploymentsPath: string,
-    hre?: HardhatRuntimeEnvironment
+    paths: FilfoxPaths,
+    context?: FilfoxHardhatContext,
+    extractionOverrides: ExtractionOverrides = {}
   ) {
+    // Invalid options fail before any deployment is looked up
+    const overrides: ParsedOverrides = {
+      ...extractionOverrides,
+      libraries: parseLibraryOption(extractionOverrides.libraries),
+    };
+
     try {
-      return this.extractFromHardhatDeployments(
+      return await this.extractFromHardhatDeployments(
         network,
         address,
-        deploymentsPath,
-        hre
+        paths.deployments,
+        context,
+        overrides
       );
     } catch (error) {
+      if (!(error instanceof DeploymentNotFoundError)) {
+        throw error;
+      }
       // Hardhat deployments not found, trying using Ignition configuration fallback...
-      try {
-        return this.extractFromIgnitionDeployments(address, hre);
-      } catch (ignitionError) {
-        // Ignition deployments not found, trying using artifacts fallback...
-        return await this.extractFromArtifacts(address, hre);
+    }
+
+    try {
+      return this.extractFromIgnitionDeployments(
+        address,
+        paths.ignition,
+        context,
+        overrides
+      );
+    } catch (error) {
+      if (!(error instanceof DeploymentNotFoundError)) {
+        throw error;
+      }
+      // Ignition deployments not found, trying using artifacts fallback...
+    }
+
+    try {
+      return await this.extractFromArtifacts(address, paths, context, overrides);
+    } catch (error) {
+      const upgradesDeployment =
+        error instanceof DeploymentNotFoundError &&
+        this.findUpgradesDeployment(address, network, paths, context);
+      if (upgradesDeployment && upgradesDeployment.role !== "implementation") {
+        throw new Error(
+          `${address} is the ${[upgradesDeployment.kind, upgradesDeployment.role].filter(Boolean).join(" ")} ` +
+            "deployed by OpenZeppelin upgrades from its own artifacts, its sources are not part of the project"
+        );
       }
+      throw error;
     }
   }
 
-  private static extractFromHardhatDeployments(
+  /**
+   * Lists every deployed contract recorded by hardhat-deploy or Ignition for the network,
+   * and the implementations recorded by OpenZeppelin upgrades
+   */
+  public static listDeployments(
+    network: string,
+    paths: FilfoxPaths,
+    context?: FilfoxHardhatContext
+  ): DeployedContract[] {
+    const networkDeploymentsPath = `${paths.deployments}/${network}`;
+    const chainId = context?.chainId;
+    const deployedAddressesPath = `${paths.ignition}/deployments/chain-${chainId}/deployed_addresses.json`;
+
+    let deployments: DeployedContract[] | undefined;
+    if (fs.existsSync(networkDeploymentsPath)) {
+      const files = this.readDeploymentFiles(networkDeploymentsPath).filter(
+        ({ deployment }) => deployment.address
+      );
+      deployments = files
+        // Skip proxied deployments duplicating their `<Name>_Proxy` file
+        .filter(
+          ({ deployment }) =>
+            !deployment.implementation ||
+            !files.some(
+              (other) =>
+                !other.deployment.implementation &&
+                other.deployment.address.toLowerCase() ===
+                  deployment.address.toLowerCase()
+            )
+        )
+        .map(({ fileName, deployment }) => ({
+          name: fileName.replace(".json", ""),
+          address: deployment.address,
+        }));
+    } else if (chainId && fs.existsSync(deployedAddressesPath)) {
+      const deployedAddresses: Record<string, string> = JSON.parse(
+        fs.readFileSync(deployedAddressesPath, "utf8")
+      );
+      deployments = Object.entries(deployedAddresses).map(
+        ([name, address]) => ({
+          name,
+          address,
+        })
+      );
+    }
+
+    // Proxies of OpenZeppelin upgrades are built from its own artifacts, only the
+    // implementations can be verified from the project sources
+    const implementations = this.listUpgradesDeployments(
+      network,
+      paths,
+      context
+    )
+      .filter(({ role }) => role === "implementation")
+      .filter(
+        ({ address }) =>
+          !deployments?.some(
+            (deployment) =>
+              deployment.address.toLowerCase() === address.toLowerCase()
+          )
+      )
+      .map(({ address }) => ({ name: "Implementation", address }));
+
+    if (!deployments && implementations.length === 0) {
+      throw new Error(
+        `No deployments found in ${networkDeploymentsPath}, ${deployedAddressesPath} or .openzeppelin`
+      );
+    }
+
+    return [...(deployments ?? []), ...implementations];
+  }
+
+  /**
+   * Finds an address in the OpenZeppelin upgrades manifest of the network
+   */
+  public static findUpgradesDeployment(
+    address: string,
+    network: string,
+    paths: FilfoxPaths,
+    context?: FilfoxHardhatContext
+  ): UpgradesDeployment | undefined {
+    return this.listUpgradesDeployments(network, paths, context).find(
+      (deployment) => deployment.address.toLowerCase() === address.toLowerCase()
+    );
+  }
+
+  /**
+   * Reads the manifest of OpenZeppelin upgrades: `.openzeppelin/unknown-<chainId>.json`
+   * for chains it has no name for (such as Filecoin), otherwise `.openzeppelin/<network>.json`,
+   * below the project root
+   */
+  private static listUpgradesDeployments(
+    network: string,
+    paths: FilfoxPaths,
+    context?: FilfoxHardhatContext
+  ): UpgradesDeployment[] {
+    const manifestDir = path.join(paths.root, ".openzeppelin");
+    const manifestPath = [
+      context?.chainId && `${manifestDir}/unknown-${context.chainId}.json`,
+      `${manifestDir}/${network}.json`,
+    ].find((candidate) => candidate && fs.existsSync(candidate));
+    if (!manifestPath) {
+      return [];
+    }
+
+    const manifest: UpgradesManifest = JSON.parse(
+      fs.readFileSync(manifestPath, "utf8")
+    );
+    return [
+      ...(manifest.admin
+        ? [{ ...manifest.admin, role: "admin" as const }]
+        : []),
+      ...(manifest.proxies ?? []).map(({ address, txHash, kind }) => ({
+        address,
+        txHash,
+        kind,
+        role: "proxy" as const,
+      })),
+      ...Object.values(manifest.impls ?? {}).map(({ address, txHash }) => ({
+        address,
+        txHash,
+        role: "implementation" as const,
+      })),
+    ];
+  }
+
+  /**
+   * Reads the hardhat-deploy deployment files of a network directory
+   */
+  private static readDeploymentFiles(
+    networkDeploymentsPath: string
+  ): Array<{ fileName: string; deployment: DeploymentData }> {
+    return fs
+      .readdirSync(networkDeploymentsPath)
+      .filter((file) => file.endsWith(".json"))
+      .flatMap((fileName) => {
+        try {
+          const deployment = JSON.parse(
+            fs.readFileSync(`${networkDeploymentsPath}/${fileName}`, "utf8")
+          );
+          return [{ fileName, deployment }];
+        } catch (error) {
+          console.warn(
+            `Warning: Could not read deployment file ${fileName}:`,
+            error
+          );
+          return [];
+        }
+      });
+  }
+
+  private static async extractFromHardhatDeployments(
     network: string,
     address: string,
     deploymentsPath: string,
-    hre?: HardhatRuntimeEnvironment
+    context?: FilfoxHardhatContext,
+    overrides: ParsedOverrides = { libraries: {} }
   ) {
-    // Search for the contract name in the deployments/network directory for the address
-    const deploymentFiles = fs
-      .readdirSync(`${deploymentsPath}/${network}`)
-      .filter((file) => file.endsWith(".json"));
+    const networkDeploymentsPath = `${deploymentsPath}/${network}`;
+    if (!fs.existsSync(networkDeploymentsPath)) {
+      throw new DeploymentNotFoundError(
+        `No hardhat-deploy deployments found at ${networkDeploymentsPath}`
+      );
+    }
 
-    const contractFileName = deploymentFiles.find((fileName) => {
-      try {
-        const filePath = `${deploymentsPath}/${network}/${fileName}`;
-        const deployment = JSON.parse(fs.readFileSync(filePath, "utf8"));
-        return deployment.address?.toLowerCase() === address?.toLowerCase();
-      } catch (error) {
-        console.warn(
-          `Warning: Could not read deployment file ${fileName}:`,
-          error
-        );
-        return false;
-      }
-    });
+    // Search for the deployment file of the address in the deployments/network directory
+    const matchingDeployments = this.readDeploymentFiles(
+      networkDeploymentsPath
+    ).filter(
+      ({ deployment }) =>
+        deployment.address?.toLowerCase() === address?.toLowerCase()
+    );
 
-    if (!contractFileName) {
-      throw new Error(
-        `No deployment file found for contract address ${address} in ${deploymentsPath}/${network}`
+    // hardhat-deploy also saves a proxy under the proxied name, with the merged ABI
+    // and the metadata of the implementation. `<Name>_Proxy` describes the proxy itself.
+    const contractFile =
+      matchingDeployments.find(({ deployment }) => !deployment.implementation) ??
+      matchingDeployments[0];
+
+    if (!contractFile) {
+      throw new DeploymentNotFoundError(
+        `No deployment file found for contract address ${address} in ${networkDeploymentsPath}`
       );
     }
 
-    // Extract contract name by removing .json extension
-    const contractName = contractFileName.replace(".json", "");
-
-    const deploymentPath = `${deploymentsPath}/${network}/${contractFileName}`;
-    const deployments: DeploymentData = JSON.parse(
-      fs.readFileSync(deploymentPath, "utf8")
-    );
+    const { fileName: contractFileName, deployment: deployments } =
+      contractFile;
 
     const solcInputPath = `${deploymentsPath}/${network}/solcInputs/${deployments.solcInputHash}.json`;
     const solcInput: SolcInputData = JSON.parse(
       fs.readFileSync(solcInputPath, "utf8")
     );
 
+    const contractMetadata = JSON.parse(deployments.metadata);
+    const { compiler, language, settings } = contractMetadata as {
+      compiler: {
+        version: string;
+      };
+      language: string;
+      settings: {
+        compilationTarget: Record<string, string>;
+      };
+      output: {
+        abi: any[];
+        devdoc: any;
+        userdoc: any;
+      };
+    };
+
+    // The compilation target names the contract, `_Proxy` and `_Implementation`
+    // deployment files are not named after it
+    const [targetSource, targetName] =
+      Object.entries(settings.compilationTarget ?? {})[0] ?? [];
+    const contractName = targetName ?? contractFileName.replace(".json", "");
+
     let sourceFiles = Object.keys(solcInput.sources).reduce(
       (acc: any, key: string) => {
         acc[key] = solcInput.sources[key];
@@ -80,9 +329,12 @@ export class ContractDataExtractor {
       {}
     );
 
-    const contractToVerify = Object.keys(sourceFiles).find((key) =>
-      key.includes(contractName + ".sol")
-    );
+    const contractToVerify =
+      targetSource && sourceFiles[targetSource]
+        ? targetSource
+        : Object.keys(sourceFiles).find((key) =>
+            key.includes(contractName + ".sol")
+          );
 
     if (!contractToVerify) {
       throw new Error(
@@ -94,59 +346,56 @@ export class ContractDataExtractor {
     delete sourceFiles[contractToVerify];
     sourceFiles = { [contractToVerify]: contractSource, ...sourceFiles };
 
-    const { compiler, language } = JSON.parse(deployments.metadata) as {
-      compiler: {
-        version: string;
-      };
-      language: string;
-      output: {
-        abi: any[];
-        devdoc: any;
-        userdoc: any;
-      };
-    };
-
     const compilerVersion = "v" + compiler.version;
-    const optimize = solcInput.settings.optimizer.enabled;
-    const optimizeRuns = solcInput.settings.optimizer.runs;
     const license = "";
-    const evmVersion = solcInput.settings.evmVersion ?? "default";
-    const viaIR = hre
-      ? !!(hre.userConfig.solidity as any)?.settings?.viaIR
-      : false;
-    const libraries = "";
-    const metadata = solcInput.settings.metadata ?? "";
+    const libraries = resolveLibraries(
+      {
+        ...deployments.libraries,
+        ...overrides.libraries,
+      },
+      await this.readLinkReferences(settings.compilationTarget, context),
+      sourceFiles
+    );
+    const constructorArgs = this.resolveConstructorArgs(
+      deployments.abi,
+      deployments.args,
+      overrides.constructorArgs
+    );
     return {
       address: deployments.address,
       language,
       compiler: compilerVersion,
-      optimize,
-      optimizeRuns,
+      ...toCompilerSettings(solcInput.settings),
       sourceFiles,
       license,
-      evmVersion,
-      viaIR,
       libraries,
-      metadata,
-      optimizerDetails: "",
+      metadata: contractMetadata,
+      constructorArgs,
+      compilationTarget: Object.entries(settings.compilationTarget ?? {})
+        .map(([sourceName, name]) => `${sourceName}:${name}`)
+        .find(Boolean),
     } as VerificationRequest;
   }
 
   private static extractFromIgnitionDeployments(
     address: string,
-    hre?: HardhatRuntimeEnvironment
+    ignitionDir: string,
+    context?: FilfoxHardhatContext,
+    overrides: ParsedOverrides = { libraries: {} }
   ) {
-    const chainId = hre?.network.config.chainId;
+    const chainId = context?.chainId;
     if (!chainId) {
-      throw new Error("Chain ID not found for Ignition deployment extraction");
+      throw new DeploymentNotFoundError(
+        "Chain ID not found for Ignition deployment extraction"
+      );
     }
 
-    const ignitionPath = "./ignition/deployments";
+    const ignitionPath = `${ignitionDir}/deployments`;
     const chainFolderName = `chain-${chainId}`;
     const deployedAddressesPath = `${ignitionPath}/${chainFolderName}/deployed_addresses.json`;
 
     if (!fs.existsSync(deployedAddressesPath)) {
-      throw new Error(
+      throw new DeploymentNotFoundError(
         `No Ignition deployments found at ${deployedAddressesPath}`
       );
     }
@@ -160,7 +409,7 @@ export class ContractDataExtractor {
     );
 
     if (!deploymentKey) {
-      throw new Error(
+      throw new DeploymentNotFoundError(
         `No deployment found for address ${address} in Ignition deployments`
       );
     }
@@ -173,21 +422,9 @@ export class ContractDataExtractor {
     }
 
     const artifactsPath = `${ignitionPath}/${chainFolderName}/artifacts`;
-    const dbgFileName = `${deploymentKey}.dbg.json`;
-    const dbgFilePath = `${artifactsPath}/${dbgFileName}`;
-
-    if (!fs.existsSync(dbgFilePath)) {
-      throw new Error(`Debug file not found at ${dbgFilePath}`);
-    }
-
-    const dbgData = JSON.parse(fs.readFileSync(dbgFilePath, "utf8"));
-    const buildInfoPath = `${artifactsPath}/${dbgData.buildInfo}`;
-
-    if (!fs.existsSync(buildInfoPath)) {
-      throw new Error(`Build info file not found at ${buildInfoPath}`);
-    }
-
-    const buildInfo = JSON.parse(fs.readFileSync(buildInfoPath, "utf8"));
+    const artifactPath = `${artifactsPath}/${deploymentKey}.json`;
+    const artifact = this.readArtifact(artifactPath);
+    const buildInfo = readArtifactBuildInfo(artifactPath, artifact ?? {});
 
     let sourceFiles = Object.keys(buildInfo.input.sources).reduce(
       (acc: any, key: string) => {
@@ -212,83 +449,87 @@ export class ContractDataExtractor {
     sourceFiles = { [contractToVerify]: contractSource, ...sourceFiles };
 
     const compilerVersion = "v" + buildInfo.solcLongVersion;
-    const optimize = buildInfo.input.settings.optimizer.enabled;
-    const optimizeRuns = buildInfo.input.settings.optimizer.runs;
     const license = "";
-    const evmVersion = buildInfo.input.settings.evmVersion ?? "default";
-    const viaIR = buildInfo.input.settings.viaIR ?? false;
-    const libraries = "";
-    const metadata = buildInfo.input.settings.metadata ?? "";
+    const deploymentRecord = this.readIgnitionDeploymentRecord(
+      `${ignitionPath}/${chainFolderName}/journal.jsonl`,
+      deploymentKey
+    );
+    const libraries = resolveLibraries(
+      {
+        ...deploymentRecord?.libraries,
+        ...overrides.libraries,
+      },
+      artifact?.linkReferences,
+      sourceFiles
+    );
+    const metadata = this.readContractMetadata(
+      buildInfo,
+      contractToVerify,
+      contractName
+    );
+    const constructorArgs = this.resolveConstructorArgs(
+      artifact?.abi,
+      deploymentRecord?.constructorArgs,
+      overrides.constructorArgs
+    );
 
     return {
       address: address,
       language: buildInfo.input.language,
       compiler: compilerVersion,
-      optimize,
-      optimizeRuns,
+      ...toCompilerSettings(buildInfo.input.settings),
       sourceFiles,
       license,
-      evmVersion,
-      viaIR,
       libraries,
       metadata,
-      optimizerDetails: "",
+      constructorArgs,
+      compilationTarget: `${contractToVerify}:${contractName}`,
     } as VerificationRequest;
   }
 
   private static async extractFromArtifacts(
     address: string,
-    hre?: HardhatRuntimeEnvironment
+    paths: FilfoxPaths,
+    context?: FilfoxHardhatContext,
+    overrides: ParsedOverrides = { libraries: {} }
   ) {
-    if (!hre) {
+    if (!context) {
       throw new Error(
         "HardhatRuntimeEnvironment is required for artifacts extraction"
       );
     }
 
-    const bytecode = (await hre.network.provider.request({
+    const bytecode = (await context.provider.request({
       method: "eth_getCode",
       params: [address, "latest"],
     })) as string | undefined;
 
     if (!bytecode || bytecode === "0x") {
-      throw new Error(`Bytecode not found for address ${address}`);
+      throw new DeploymentNotFoundError(
+        `Bytecode not found for address ${address}`
+      );
     }
 
-    const artifactsPath = "./artifacts/contracts";
+    const artifactsPath = paths.artifacts;
 
     if (!fs.existsSync(artifactsPath)) {
-      throw new Error(`Artifacts directory not found at ${artifactsPath}`);
+      throw new DeploymentNotFoundError(
+        `Artifacts directory not found at ${artifactsPath}`
+      );
     }
 
     const matchingContract = this.findMatchingContractInArtifacts(
       artifactsPath,
+      path.join(paths.cache, "filfox-artifacts-index.json"),
       bytecode
     );
 
-    if (!matchingContract) {
-      throw new Error(
-        `No matching contract found for address ${address} in artifacts`
-      );
-    }
-
-    const dbgFile = matchingContract.artifactPath.replace(".json", ".dbg.json");
-    if (!fs.existsSync(dbgFile)) {
-      throw new Error(`Debug file not found at ${dbgFile}`);
-    }
-
-    const dbgData = JSON.parse(fs.readFileSync(dbgFile, "utf8"));
-    const buildInfoPath = path.resolve(
-      path.dirname(dbgFile),
-      dbgData.buildInfo
+    const artifact = this.readArtifact(matchingContract.artifactPath);
+    const buildInfo = readArtifactBuildInfo(
+      matchingContract.artifactPath,
+      artifact ?? {}
     );
 
-    if (!fs.existsSync(buildInfoPath)) {
-      throw new Error(`Build info file not found at ${buildInfoPath}`);
-    }
-
-    const buildInfo = JSON.parse(fs.readFileSync(buildInfoPath, "utf8"));
-
     let sourceFiles = Object.keys(buildInfo.input.sources).reduce(
       (acc: any, key: string) => {
         acc[key] = buildInfo.input.sources[key];
@@ -297,9 +538,14 @@ export class ContractDataExtractor {
       {}
     );
 
-    const contractToVerify = Object.keys(sourceFiles).find((key) =>
-      key.includes(matchingContract.contractName + ".sol")
-    );
+    // Hardhat 3 compiles project sources as `project/<source name>`
+    const inputSourceName =
+      artifact?.inputSourceName ?? matchingContract.sourceName;
+    const contractToVerify = sourceFiles[inputSourceName]
+      ? inputSourceName
+      : Object.keys(sourceFiles).find((key) =>
+          key.includes(matchingContract.contractName + ".sol")
+        );
 
     if (!contractToVerify) {
       throw new Error(
@@ -312,66 +558,175 @@ export class ContractDataExtractor {
     sourceFiles = { [contractToVerify]: contractSource, ...sourceFiles };
 
     const compilerVersion = "v" + buildInfo.solcLongVersion;
-    const optimize = buildInfo.input.settings.optimizer.enabled;
-    const optimizeRuns = buildInfo.input.settings.optimizer.runs;
     const license = "";
-    const evmVersion = buildInfo.input.settings.evmVersion ?? "default";
-    const viaIR = buildInfo.input.settings.viaIR ?? false;
-    const libraries = "";
-    const metadata = buildInfo.input.settings.metadata ?? "";
+    const libraries = resolveLibraries(
+      overrides.libraries,
+      artifact?.linkReferences,
+      sourceFiles
+    );
+    const metadata = this.readContractMetadata(
+      buildInfo,
+      contractToVerify,
+      matchingContract.contractName
+    );
+    const constructorArgs = this.resolveConstructorArgs(
+      artifact?.abi,
+      undefined,
+      overrides.constructorArgs
+    );
 
     return {
       address: address,
       language: buildInfo.input.language,
       compiler: compilerVersion,
-      optimize,
-      optimizeRuns,
+      ...toCompilerSettings(buildInfo.input.settings),
       sourceFiles,
       license,
-      evmVersion,
-      viaIR,
       libraries,
       metadata,
-      optimizerDetails: "",
+      constructorArgs,
+      compilationTarget: `${contractToVerify}:${matchingContract.contractName}`,
     } as VerificationRequest;
   }
 
+  /**
+   * Finds the artifact matching the on-chain bytecode through the cached artifact index,
+   * reporting the closest artifacts when none matches
+   */
   private static findMatchingContractInArtifacts(
     artifactsPath: string,
+    cachePath: string,
     targetBytecode: string
-  ): { contractName: string; artifactPath: string } | null {
-    const searchDirectory = (
-      dir: string
-    ): { contractName: string; artifactPath: string } | null => {
-      const items = fs.readdirSync(dir);
-
-      for (const item of items) {
-        const itemPath = path.join(dir, item);
-        const stats = fs.statSync(itemPath);
-
-        if (stats.isDirectory()) {
-          const result = searchDirectory(itemPath);
-          if (result) return result;
-        } else if (item.endsWith(".json") && !item.endsWith(".dbg.json")) {
-          try {
-            const artifact = JSON.parse(fs.readFileSync(itemPath, "utf8"));
-            if (
-              artifact.deployedBytecode &&
-              artifact.deployedBytecode.toLowerCase() ===
-                targetBytecode.toLowerCase()
-            ) {
-              const contractName = path.basename(item, ".json");
-              return { contractName, artifactPath: itemPath };
-            }
-          } catch (error) {
-            continue;
-          }
-        }
-      }
+  ): { contractName: string; sourceName: string; artifactPath: string } {
+    const index = loadArtifactIndex(artifactsPath, cachePath);
+    const { match, closest } = matchBytecode(index, targetBytecode);
+
+    if (!match) {
+      throw new DeploymentNotFoundError(
+        `No artifact in ${artifactsPath} matches the deployed bytecode` +
+          (closest.length > 0
+            ? `. Closest matches:\n${formatPartialMatches(closest)
+                .map((line) => `  - ${line}`)
+                .join("\n")}`
+            : "")
+      );
+    }
 
-      return null;
+    return {
+      contractName: match.contractName,
+      sourceName: match.sourceName,
+      artifactPath: match.artifactPath,
     };
+  }
+
+  /**
+   * Resolves the ABI-encoded constructor arguments for a contract.
+   * An explicit override always wins over arguments found in deployment records.
+   */
+  private static resolveConstructorArgs(
+    abi: any[] | undefined,
+    detectedArgs: any[] | undefined,
+    override?: string | unknown[]
+  ): string {
+    if (override) {
+      const args =
+        typeof override === "string" ? loadConstructorArgs(override) : override;
+      if (typeof args !== "string" && !abi) {
+        throw new Error(
+          "Contract ABI not found, constructor arguments must be provided as ABI-encoded hex"
+        );
+      }
+      return encodeConstructorArgs(abi ?? [], args);
+    }
+
+    if (abi && detectedArgs && detectedArgs.length > 0) {
+      return encodeConstructorArgs(abi, detectedArgs);
+    }
+
+    return "";
+  }
+
+  private static readArtifact(artifactPath: string): any | undefined {
+    if (!fs.existsSync(artifactPath)) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(artifactPath, "utf8"));
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Reads the solc metadata of a contract from the output of its build info
+   */
+  private static readContractMetadata(
+    buildInfo: any,
+    sourceName: string,
+    contractName: string
+  ): any | undefined {
+    const metadata =
+      buildInfo.output?.contracts?.[sourceName]?.[contractName]?.metadata;
+
+    try {
+      return metadata ? JSON.parse(metadata) : undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Reads the link references of the compiled artifact for a compilation target
+   */
+  private static async readLinkReferences(
+    compilationTarget: Record<string, string> | undefined,
+    context?: FilfoxHardhatContext
+  ): Promise<LinkReferences | undefined> {
+    const [sourceName, contractName] =
+      Object.entries(compilationTarget ?? {})[0] ?? [];
+    if (!context || !sourceName) {
+      return undefined;
+    }
+
+    try {
+      return (await context.readArtifact(`${sourceName}:${contractName}`))
+        .linkReferences;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Reads the deployment record (constructor args, libraries) of a future from the Ignition journal
+   */
+  private static readIgnitionDeploymentRecord(
+    journalPath: string,
+    futureId: string
+  ): { constructorArgs?: any[]; libraries?: Record<string, string> } | undefined {
+    if (!fs.existsSync(journalPath)) {
+      return undefined;
+    }
+
+    const lines = fs.readFileSync(journalPath, "utf8").split("\n");
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      try {
+        const entry = JSON.parse(line, (_key, value) =>
+          value?._kind === "bigint" ? BigInt(value.value) : value
+        );
+        if (
+          entry.futureId === futureId &&
+          entry.type === "DEPLOYMENT_EXECUTION_STATE_INITIALIZE"
+        ) {
+          return entry;
+        }
+      } catch (error) {
+        continue;
+      }
+    }
 
-    return searchDirectory(artifactsPath);
+    return undefined;
   }
 }
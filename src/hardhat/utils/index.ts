@@ -1 +1,3 @@
-export * from "./contractDataExtractor";
\ No newline at end of file
+export * from "./contractDataExtractor";
+export * from "./artifactIndex";
+export * from "./buildInfo";
@@ -0,0 +1,48 @@
+import { registerFilfoxNetworks } from "../../services/networks";
+import { resolveFilfoxPaths } from "../config";
+import { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { FilfoxHardhatContext } from "../types";
+
+/**
+ * Connects to the network selected with `--network` and builds the plugin context.
+ * HTTP networks without a configured chainId are asked for it over RPC.
+ */
+export async function connectFilfoxContext(
+  hre: HardhatRuntimeEnvironment
+): Promise<FilfoxHardhatContext> {
+  registerFilfoxNetworks(hre.config.filfox.networks);
+
+  const connection = hre.network.getOrCreate
+    ? await hre.network.getOrCreate()
+    : await hre.network.connect();
+  const chainId =
+    connection.networkConfig.chainId ??
+    Number(await connection.provider.request({ method: "eth_chainId" }));
+
+  return {
+    network: connection.networkName,
+    chainId,
+    provider: connection.provider,
+    config: hre.config.filfox,
+    paths: resolveFilfoxPaths({
+      ...hre.config.paths,
+      // Artifacts are named after the first Solidity sources directory
+      sources: hre.config.paths.sources?.solidity?.[0],
+    }),
+    readArtifact: (fullyQualifiedName) =>
+      hre.artifacts.readArtifact(fullyQualifiedName),
+  };
+}
+
+/**
+ * Hardhat 3 options have defaults, empty strings stand for options not given
+ */
+export const withoutEmptyOptions = <TaskArgs extends object>(
+  taskArgs: TaskArgs
+): TaskArgs =>
+  Object.fromEntries(
+    Object.entries(taskArgs).map(([key, value]) => [
+      key,
+      value === "" ? undefined : value,
+    ])
+  ) as TaskArgs;
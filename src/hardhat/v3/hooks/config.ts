@@ -0,0 +1,18 @@
+import { ConfigHooks } from "hardhat/types/hooks";
+import { resolveFilfoxConfig, validateFilfoxConfig } from "../../config";
+
+/**
+ * Config hook handlers of the Hardhat 3 plugin, resolving the `filfox` section
+ */
+export default async (): Promise<Partial<ConfigHooks>> => ({
+  validateUserConfig: async (userConfig) =>
+    validateFilfoxConfig(userConfig.filfox),
+
+  resolveUserConfig: async (userConfig, resolveConfigurationVariable, next) => {
+    const resolvedConfig = await next(userConfig, resolveConfigurationVariable);
+    return {
+      ...resolvedConfig,
+      filfox: resolveFilfoxConfig(userConfig.filfox),
+    };
+  },
+});
@@ -0,0 +1,159 @@
+import { task } from "hardhat/config";
+import { ArgumentType } from "hardhat/types/arguments";
+import { HardhatPlugin } from "hardhat/types/plugins";
+import "./type-extensions";
+import { DEFAULT_WAIT_OPTIONS } from "../../services/wait";
+import { importHardhatVerify } from "./verify-override";
+
+/**
+ * Hardhat 3 plugin: the `verifyfilfox` tasks, the `filfox` config section and,
+ * when hardhat-verify is loaded, its `verify` task routed to Filfox on Filecoin networks
+ */
+const filfoxVerifierPlugin: HardhatPlugin = {
+  id: "@fil-b/filfox-verifier",
+  npmPackage: "@fil-b/filfox-verifier",
+  conditionalDependencies: [
+    {
+      condition: () => [importHardhatVerify()],
+      plugin: () => import("./verify-override"),
+    },
+  ],
+  hookHandlers: {
+    config: () => import("./hooks/config"),
+  },
+  tasks: [
+    task("verifyfilfox", "Verifies a contract on Filfox")
+      .addOption({
+        name: "address",
+        description: "The address of the contract to verify",
+        defaultValue: "",
+      })
+      .addOption({
+        name: "constructorArgs",
+        description:
+          "ABI-encoded constructor arguments (0x...) or path to a JSON/.js file exporting an array of arguments",
+        defaultValue: "",
+      })
+      .addOption({
+        name: "libraries",
+        description:
+          "Comma separated linked library addresses in format Name=0xAddress",
+        defaultValue: "",
+      })
+      .addFlag({
+        name: "dryRun",
+        description:
+          "Prepare the verification request and write it to disk without contacting Filfox",
+      })
+      .addOption({
+        name: "output",
+        description:
+          "File the verification request is written to (implies --dry-run)",
+        defaultValue: "",
+      })
+      .addOption({
+        name: "standardJson",
+        description:
+          "Also write the solc standard JSON input of a dry run to this file",
+        defaultValue: "",
+      })
+      .addOption({
+        name: "license",
+        description:
+          "License sent to Filfox, e.g. MIT (default: the SPDX-License-Identifier of the contract)",
+        defaultValue: "",
+      })
+      .addFlag({
+        name: "explainImports",
+        description:
+          "Print how each import was resolved and which source files were pruned",
+      })
+      .addFlag({
+        name: "preflight",
+        description:
+          "Recompile the payload locally and compare it with the deployed bytecode before submitting",
+      })
+      .addOption({
+        name: "creationTx",
+        description:
+          "Deployment transaction used by --preflight to check the constructor arguments",
+        defaultValue: "",
+      })
+      .addFlag({
+        name: "wait",
+        description:
+          "Wait until Filfox has indexed the contract before verifying, e.g. right after a deployment",
+      })
+      .addOption({
+        name: "maxWait",
+        description: "Longest time --wait waits for the contract, in seconds",
+        type: ArgumentType.INT,
+        defaultValue: DEFAULT_WAIT_OPTIONS.maxWait / 1000,
+      })
+      .addOption({
+        name: "confirmations",
+        description:
+          "With --wait, wait for this many confirmations of the network instead of polling Filfox",
+        type: ArgumentType.INT,
+        defaultValue: 0,
+      })
+      .addFlag({
+        name: "skipImplementation",
+        description:
+          "Don't verify the implementation when the address is an ERC-1967 proxy",
+      })
+      .addOption({
+        name: "deploymentsPath",
+        description:
+          "Path of the hardhat-deploy deployments directory (default: paths.deployments)",
+        defaultValue: "",
+      })
+      .addOption({
+        name: "ignitionPath",
+        description:
+          "Path of the Ignition directory holding deployments/chain-<id> (default: paths.ignition)",
+        defaultValue: "",
+      })
+      .addOption({
+        name: "artifactsPath",
+        description:
+          "Path of the artifacts matched against the deployed bytecode (default: the artifacts of paths.sources)",
+        defaultValue: "",
+      })
+      .setAction(() => import("./tasks/verify-filfox"))
+      .build(),
+
+    task(
+      "verifyfilfox-all",
+      "Verifies every deployed contract of the network on Filfox"
+    )
+      .addOption({
+        name: "deploymentsPath",
+        description:
+          "Path of the hardhat-deploy deployments directory (default: paths.deployments)",
+        defaultValue: "",
+      })
+      .addOption({
+        name: "ignitionPath",
+        description:
+          "Path of the Ignition directory holding deployments/chain-<id> (default: paths.ignition)",
+        defaultValue: "",
+      })
+      .setAction(() => import("./tasks/verify-all"))
+      .build(),
+
+    task(
+      "verifyfilfox:status",
+      "Checks whether a contract is already verified on Filfox"
+    )
+      .addOption({
+        name: "address",
+        description: "The address of the contract to check",
+        defaultValue: "",
+      })
+      .setAction(() => import("./tasks/status"))
+      .build(),
+  ],
+};
+
+export default filfoxVerifierPlugin;
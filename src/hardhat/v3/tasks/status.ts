@@ -0,0 +1,13 @@
+import { NewTaskActionFunction } from "hardhat/types/tasks";
+import { verifyFilfoxStatusAction } from "../../actions";
+import { connectFilfoxContext } from "../connection";
+
+const action: NewTaskActionFunction<{ address: string }> = async (taskArgs, hre) => {
+  if (!taskArgs.address) {
+    throw new Error("--address is required");
+  }
+
+  return verifyFilfoxStatusAction(taskArgs, await connectFilfoxContext(hre));
+};
+
+export default action;
@@ -0,0 +1,15 @@
+import { NewTaskActionFunction } from "hardhat/types/tasks";
+import { verifyAllFilfoxAction } from "../../actions";
+import { VerifyAllFilfoxParams } from "../../types";
+import { connectFilfoxContext, withoutEmptyOptions } from "../connection";
+
+const action: NewTaskActionFunction<VerifyAllFilfoxParams> = async (
+  taskArgs,
+  hre
+) =>
+  verifyAllFilfoxAction(
+    withoutEmptyOptions(taskArgs),
+    await connectFilfoxContext(hre)
+  );
+
+export default action;
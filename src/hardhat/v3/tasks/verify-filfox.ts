@@ -0,0 +1,17 @@
+import { NewTaskActionFunction } from "hardhat/types/tasks";
+import { verifyFilfoxAction } from "../../actions";
+import { VerifyFilfoxParams } from "../../types";
+import { connectFilfoxContext, withoutEmptyOptions } from "../connection";
+
+const action: NewTaskActionFunction<VerifyFilfoxParams> = async (taskArgs, hre) => {
+  if (!taskArgs.address) {
+    throw new Error("--address is required");
+  }
+
+  return verifyFilfoxAction(
+    withoutEmptyOptions(taskArgs),
+    await connectFilfoxContext(hre)
+  );
+};
+
+export default action;
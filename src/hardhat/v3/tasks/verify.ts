@@ -0,0 +1,38 @@
+import { TaskOverrideActionFunction } from "hardhat/types/tasks";
+import { isFilfoxContext, verifyOverrideAction } from "../../actions";
+import { connectFilfoxContext } from "../connection";
+
+/**
+ * Arguments of the `verify` task of @nomicfoundation/hardhat-verify 3
+ */
+interface HardhatVerifyTaskArgs {
+  address?: string;
+  constructorArgs?: string[];
+  constructorArgsPath?: string;
+  librariesPath?: string;
+}
+
+/**
+ * `npx hardhat verify` verifies on Filfox for Filecoin networks
+ */
+const action: TaskOverrideActionFunction<HardhatVerifyTaskArgs> = async (
+  taskArgs,
+  hre,
+  runSuper
+) => {
+  const context = await connectFilfoxContext(hre);
+  if (!isFilfoxContext(context)) {
+    return runSuper(taskArgs);
+  }
+
+  return verifyOverrideAction(
+    {
+      address: taskArgs.address,
+      constructorArgs: taskArgs.constructorArgsPath || taskArgs.constructorArgs,
+      librariesPath: taskArgs.librariesPath || undefined,
+    },
+    context
+  );
+};
+
+export default action;
@@ -0,0 +1,12 @@
+import "hardhat/types/config";
+import { FilfoxConfig, FilfoxUserConfig } from "../types";
+
+declare module "hardhat/types/config" {
+  interface HardhatUserConfig {
+    filfox?: FilfoxUserConfig;
+  }
+
+  interface HardhatConfig {
+    filfox: FilfoxConfig;
+  }
+}
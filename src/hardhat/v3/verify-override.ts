@@ -0,0 +1,28 @@
+import { overrideTask } from "hardhat/config";
+import { HardhatPlugin } from "hardhat/types/plugins";
+
+/**
+ * hardhat-verify is an optional peer dependency, its Hardhat 3 release is
+ * loaded by name as the package is built against the Hardhat 2 one
+ */
+const HARDHAT_VERIFY = "@nomicfoundation/hardhat-verify";
+
+export const importHardhatVerify = (): Promise<{ default: HardhatPlugin }> =>
+  import(HARDHAT_VERIFY);
+
+/**
+ * Routes the `verify` task of hardhat-verify to Filfox on Filecoin networks.
+ * Loaded as a conditional dependency, only when hardhat-verify is a plugin of the project.
+ */
+const verifyOverridePlugin: HardhatPlugin = {
+  id: "@fil-b/filfox-verifier/verify",
+  npmPackage: "@fil-b/filfox-verifier",
+  dependencies: () => [importHardhatVerify()],
+  tasks: [
+    overrideTask("verify")
+      .setAction(() => import("./tasks/verify"))
+      .build(),
+  ],
+};
+
+export default verifyOverridePlugin;
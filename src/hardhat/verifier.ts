@@ -0,0 +1,288 @@
+import { BrowserProvider } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ContractDataExtractor } from "./utils";
+import { applyPathParams, getRequestOptions } from "./config";
+import { toFilfoxContext } from "./context";
+import {
+  FilfoxVerifier as FilfoxVerifierCore,
+  VerificationRequest,
+  verifyContract,
+} from "../services/filfox-verifier";
+import { formatImportReport } from "../services/import-resolver";
+import {
+  describePreflightReport,
+  preflightVerification,
+} from "../services/preflight";
+import {
+  DryRunOutput,
+  defaultPayloadPath,
+  writeVerificationPayload,
+} from "../services/dry-run";
+import { verifyWhenIndexed } from "../services/wait";
+import { ProxyInfo, detectProxy } from "../services/proxy";
+import { getExplorerUrl, isFilfoxNetwork } from "../services/networks";
+import {
+  VerificationResult,
+  describeVerificationResult,
+} from "../services/verification-result";
+import { FilfoxHardhatContext, VerifyContractParams } from "./types";
+
+/**
+ * Hardhat runtime accepted by the facade: a Hardhat 2 runtime environment or the
+ * plugin context of a Hardhat 3 network connection
+ */
+export type HardhatEnvironment = HardhatRuntimeEnvironment | FilfoxHardhatContext;
+
+export class FilfoxVerifier {
+  static getExplorerUrl(chainId: number, address: string): string {
+    return getExplorerUrl(chainId, address);
+  }
+
+  static async verifyContract(
+    params: VerifyContractParams,
+    hre?: HardhatEnvironment
+  ): Promise<VerificationResult> {
+    const context = toFilfoxContext(hre);
+    const verificationData = await this.extractVerificationData(
+      params,
+      context
+    );
+    const creationTx =
+      params.creationTx ??
+      ContractDataExtractor.findUpgradesDeployment(
+        params.address,
+        params.network,
+        applyPathParams(context?.paths, params),
+        context
+      )?.txHash;
+
+    if (params.explainImports) {
+      const report = new FilfoxVerifierCore(params.chainId).explainImports(
+        verificationData
+      );
+      console.log("🔎 Import resolution:");
+      formatImportReport(report).forEach((line) => console.log(line));
+    }
+
+    if (params.preflight) {
+      await this.runPreflight(
+        verificationData,
+        { ...params, creationTx },
+        context
+      );
+    }
+
+    const result = params.wait
+      ? await verifyWhenIndexed(
+          params.chainId,
+          verificationData,
+          {
+            maxWait: params.maxWait ? params.maxWait * 1000 : undefined,
+            confirmations: params.confirmations,
+            provider:
+              params.confirmations && context
+                ? new BrowserProvider(context.provider, params.chainId, {
+                    staticNetwork: true,
+                  })
+                : undefined,
+            creationTx,
+            onPoll: (message) => console.log(`⏳ ${message}...`),
+          },
+          getRequestOptions(context?.config)
+        )
+      : await verifyContract(
+          params.chainId,
+          verificationData,
+          getRequestOptions(context?.config)
+        );
+
+    this.handleVerificationResult(result);
+
+    return result;
+  }
+
+  /**
+   * Verifies the implementation behind an ERC-1967 proxy (transparent, UUPS or beacon).
+   * Returns undefined when the address is not a proxy.
+   */
+  static async verifyProxyImplementation(
+    params: VerifyContractParams,
+    hre?: HardhatEnvironment
+  ): Promise<{ proxy: ProxyInfo; result: VerificationResult } | undefined> {
+    const context = toFilfoxContext(hre);
+    if (!context) {
+      throw new Error("HardhatRuntimeEnvironment is required for proxy detection");
+    }
+
+    // A static network, a failing RPC would otherwise be polled for the network forever
+    const proxy = await detectProxy(
+      new BrowserProvider(context.provider, params.chainId, {
+        staticNetwork: true,
+      }),
+      params.address
+    ).catch(() => {
+      throw new Error(
+        `ERC-1967 slots of ${params.address} could not be read from ${params.network}`
+      );
+    });
+    if (!proxy) {
+      return undefined;
+    }
+
+    console.log(
+      `🔗 ${params.address} is a ${proxy.kind} proxy, verifying its implementation at ${proxy.implementation}`
+    );
+    const result = await this.verifyContract(
+      {
+        address: proxy.implementation,
+        chainId: params.chainId,
+        network: params.network,
+        deploymentsPath: params.deploymentsPath,
+        ignitionPath: params.ignitionPath,
+        artifactsPath: params.artifactsPath,
+        explainImports: params.explainImports,
+        preflight: params.preflight,
+        wait: params.wait,
+        maxWait: params.maxWait,
+      },
+      context
+    );
+
+    return { proxy, result };
+  }
+
+  /**
+   * Extracts and prepares the verification request without contacting Filfox,
+   * then writes it to disk
+   */
+  static async writeVerificationPayload(
+    params: VerifyContractParams,
+    output: { path?: string; standardJsonPath?: string } = {},
+    hre?: HardhatEnvironment
+  ): Promise<DryRunOutput> {
+    const verificationData = await this.extractVerificationData(
+      params,
+      toFilfoxContext(hre)
+    );
+
+    const warnings: string[] = [];
+    const body = await new FilfoxVerifierCore(
+      params.chainId
+    ).prepareRequestBody(verificationData, warnings);
+    warnings.forEach((warning) => console.warn(`⚠️ ${warning}`));
+
+    const written = writeVerificationPayload(
+      body,
+      output.path ?? defaultPayloadPath(params.address),
+      output.standardJsonPath
+    );
+
+    console.log(`📝 Verification request written to ${written.requestPath}`);
+    if (written.standardJsonPath) {
+      console.log(
+        `📝 Standard JSON input written to ${written.standardJsonPath}`
+      );
+    }
+
+    return written;
+  }
+
+  /**
+   * Recompiles the payload locally and compares it with the on-chain bytecode,
+   * throws when the payload will not match
+   */
+  private static async runPreflight(
+    verificationData: VerificationRequest,
+    params: VerifyContractParams,
+    context?: FilfoxHardhatContext
+  ): Promise<void> {
+    if (!context) {
+      throw new Error("HardhatRuntimeEnvironment is required for preflight");
+    }
+    if (!verificationData.compilationTarget) {
+      throw new Error("Contract to verify could not be determined for preflight");
+    }
+
+    const body = await new FilfoxVerifierCore(
+      params.chainId
+    ).prepareRequestBody(verificationData);
+    const deployedBytecode = (await context.provider.request({
+      method: "eth_getCode",
+      params: [verificationData.address, "latest"],
+    })) as string;
+    const creationTx = params.creationTx
+      ? ((await context.provider.request({
+          method: "eth_getTransactionByHash",
+          params: [params.creationTx],
+        })) as { input: string } | null)
+      : null;
+
+    const report = await preflightVerification(body, {
+      contract: verificationData.compilationTarget,
+      deployedBytecode,
+      onChain: true,
+      creationInput: creationTx?.input,
+    });
+    const { message, details } = describePreflightReport(report);
+
+    if (!report.match) {
+      throw new Error(`${message}\n${details.join("\n")}`);
+    }
+    console.log(`✅ ${message}`);
+  }
+
+  private static async extractVerificationData(
+    params: VerifyContractParams,
+    context?: FilfoxHardhatContext
+  ): Promise<VerificationRequest> {
+    const {
+      address,
+      chainId,
+      network,
+      constructorArgs,
+      libraries,
+    } = params;
+
+    if (!isFilfoxNetwork(chainId)) {
+      throw new Error(
+        "Use regular hardhat verification for networks other than calibration, filecoin and the networks configured in `filfox.networks`"
+      );
+    }
+
+    const verificationData = await ContractDataExtractor.extractContractData(
+      network,
+      address,
+      applyPathParams(context?.paths, params),
+      context,
+      { constructorArgs, libraries }
+    );
+
+    return params.license
+      ? { ...verificationData, license: params.license }
+      : verificationData;
+  }
+
+  private static handleVerificationResult(result: VerificationResult) {
+    const outcome = describeVerificationResult(result);
+
+    result.warnings.forEach((warning) => console.warn(`⚠️ ${warning}`));
+
+    switch (result.status) {
+      case "verified":
+        console.log(`✅ ${outcome.message}`);
+        console.log("Check it out at: ");
+        console.log(result.explorerUrl);
+        break;
+
+      case "alreadyVerified":
+        console.log(`ℹ️ ${outcome.message}`);
+        console.log("Check it out at:\n", result.explorerUrl);
+        break;
+
+      default:
+        console.log(`⚠️ ${outcome.message}`);
+        outcome.hints.forEach((hint) => console.log(hint));
+        break;
+    }
+  }
+}
@@ -0,0 +1,3 @@
+import plugin from "./hardhat/v3";
+
+export = plugin;
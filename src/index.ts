@@ -4,6 +4,8 @@ import { Command } from "commander";
 import { readFileSync } from "fs";
 import { join } from "path";
 import { verifyFilfoxCommand } from "./commands/verify-filfox";
+import { verifyBroadcastCommand } from "./commands/verify-broadcast";
+import { statusCommand } from "./commands/status";
 
 const program = new Command();
 
@@ -17,8 +19,71 @@ program
   .version(packageJson.version);
 
 program.addCommand(verifyFilfoxCommand);
+program.addCommand(verifyBroadcastCommand);
+program.addCommand(statusCommand);
 if (require.main === module) {
   program.parse();
 }
 
+export {
+  FilfoxVerifier,
+  getVerificationStatus,
+  verifyContract,
+} from "./services/filfox-verifier";
+export type {
+  ContractStatus,
+  FilfoxRequestBody,
+  SourceFile,
+  VerificationRequest,
+} from "./services/filfox-verifier";
+export {
+  describeVerificationResult,
+  isVerificationSuccessful,
+} from "./services/verification-result";
+export type {
+  FilfoxResponse,
+  VerificationResult,
+  VerificationStatus,
+} from "./services/verification-result";
+export { DEFAULT_REQUEST_OPTIONS, FilfoxHttpError } from "./services/http";
+export type { HttpErrorCategory, RequestOptions } from "./services/http";
+export {
+  FILFOX_LICENSES,
+  parseSpdxLicense,
+  toFilfoxLicense,
+} from "./services/license";
+export type { FilfoxLicense } from "./services/license";
+export { toCompilerSettings } from "./services/compiler-settings";
+export type {
+  CompilerSettings,
+  SolcSettings,
+} from "./services/compiler-settings";
+export { ERC1967_SLOTS, detectProxy } from "./services/proxy";
+export type { ProxyInfo, ProxyKind } from "./services/proxy";
+export { FILFOX_NETWORKS, getExplorerUrl } from "./services/networks";
+export type { FilfoxNetwork } from "./services/networks";
+export {
+  toStandardJsonInput,
+  writeVerificationPayload,
+} from "./services/dry-run";
+export { parseImports } from "./services/solidity-imports";
+export type {
+  ImportedSymbol,
+  SolidityImport,
+} from "./services/solidity-imports";
+export {
+  formatImportReport,
+  mergeRemappings,
+  parseRemappings,
+  resolveImports,
+  resolveRemappedImport,
+} from "./services/import-resolver";
+export type {
+  ImportReport,
+  Remapping,
+  ResolvedImport,
+} from "./services/import-resolver";
+export { FoundryProject } from "./services/FoundryProject";
+export { prepareFoundryVerification } from "./commands/verify-filfox";
+
 export default program;
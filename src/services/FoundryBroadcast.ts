@@ -0,0 +1,99 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * A contract created by a broadcast transaction
+ */
+export interface BroadcastContract {
+  contractName: string;
+  address: string;
+  transactionType: "CREATE" | "CREATE2";
+  input: string;
+}
+
+/**
+ * Reads the broadcast files written by `forge script --broadcast`
+ */
+export class FoundryBroadcast {
+  private broadcastPath: string;
+
+  constructor(
+    rootPath: string,
+    script: string,
+    chainId: number | string,
+    runFile: string = "run-latest.json"
+  ) {
+    this.broadcastPath = path.join(
+      path.resolve(rootPath),
+      "broadcast",
+      path.basename(script),
+      String(chainId),
+      runFile
+    );
+  }
+
+  /**
+   * Returns every contract created by CREATE/CREATE2 transactions in the broadcast
+   */
+  load(): { contracts: BroadcastContract[]; libraries: string[] } {
+    if (!fs.existsSync(this.broadcastPath)) {
+      throw new Error(`Broadcast file not found at ${this.broadcastPath}`);
+    }
+
+    let broadcast: any;
+    try {
+      broadcast = JSON.parse(fs.readFileSync(this.broadcastPath, "utf8"));
+    } catch (error: any) {
+      throw new Error(`Failed to parse broadcast JSON: ${error.message}`);
+    }
+
+    const contracts: BroadcastContract[] = (broadcast.transactions ?? [])
+      .filter(
+        (tx: any) =>
+          (tx.transactionType === "CREATE" ||
+            tx.transactionType === "CREATE2") &&
+          tx.contractName &&
+          tx.contractAddress
+      )
+      .map((tx: any) => ({
+        contractName: tx.contractName,
+        address: tx.contractAddress,
+        transactionType: tx.transactionType,
+        input: tx.transaction?.input ?? tx.transaction?.data ?? "0x",
+      }));
+
+    // Libraries are recorded as "path/Lib.sol:Lib:0xaddr"
+    const libraries: string[] = (broadcast.libraries ?? []).map(
+      (library: string) => {
+        const separator = library.lastIndexOf(":");
+        return `${library.slice(0, separator)}=${library.slice(separator + 1)}`;
+      }
+    );
+
+    return { contracts, libraries };
+  }
+
+  /**
+   * Extracts the ABI-encoded constructor arguments from the creation input
+   * by stripping the creation bytecode (and CREATE2 salt).
+   */
+  static extractConstructorArgs(
+    contract: BroadcastContract,
+    creationBytecode: string
+  ): string {
+    const input = contract.input.replace(/^0x/, "").toLowerCase();
+    const bytecode = creationBytecode.replace(/^0x/, "").toLowerCase();
+
+    // Calls through the deterministic deployer are prefixed with a 32 byte salt
+    const saltLength = contract.transactionType === "CREATE2" ? 64 : 0;
+    const offset = saltLength + bytecode.length;
+
+    if (input.length < offset) {
+      throw new Error(
+        `Creation input of ${contract.contractName} is shorter than its bytecode`
+      );
+    }
+
+    return input.slice(offset);
+  }
+}
@@ -2,53 +2,88 @@ import * as fs from "fs";
 import * as path from "path";
 import { execSync } from "child_process";
 import { glob } from "glob";
+import { keccak256, toUtf8Bytes } from "ethers";
+import { LibraryAddresses, LinkReferences } from "./libraries";
+import { FoundryConfig, loadFoundryConfig } from "./foundry-config";
 
 export interface CompilationResult {
   metadata: any;
   sourceFiles: Record<string, string>;
+  linkReferences: LinkReferences;
+  deployedLinkReferences: LinkReferences;
+  bytecode: string;
+  deployedBytecode: string;
+  /** Standard JSON input the contract was compiled with, from the build-info */
+  input: any;
+  buildInfoPath: string;
+}
+
+export interface FoundryProjectOptions {
+  /** Foundry profile, defaults to `FOUNDRY_PROFILE` then `default` */
+  profile?: string;
+  /** Use the existing artifacts instead of running `forge build` */
+  noCompile?: boolean;
+  /** Artifact of the contract to verify, implies `noCompile` */
+  artifact?: string;
+  /** Build-info file or directory of the artifact, when not next to it */
+  buildInfo?: string;
 }
 
 export class FoundryProject {
   private rootPath: string;
   private foundryTomlPath: string;
-  private srcPath: string;
+  private options: FoundryProjectOptions;
+  private config?: FoundryConfig;
+  private built = false;
 
-  constructor(rootPath: string = process.cwd()) {
+  constructor(rootPath: string = process.cwd(), options: FoundryProjectOptions = {}) {
     this.rootPath = path.resolve(rootPath);
     this.foundryTomlPath = path.join(this.rootPath, "foundry.toml");
-    this.srcPath = path.join(this.rootPath, "src");
+    this.options = { ...options, noCompile: options.noCompile || !!options.artifact };
   }
 
   async initialize(): Promise<void> {
+    // Artifacts shipped by another team can be verified outside of their project
+    if (this.options.artifact) {
+      return;
+    }
+
     if (!fs.existsSync(this.foundryTomlPath)) {
       throw new Error(`foundry.toml not found at ${this.foundryTomlPath}. Make sure you're in a Foundry project.`);
     }
 
-    if (!fs.existsSync(this.srcPath)) {
-      throw new Error(`src directory not found at ${this.srcPath}`);
+    const srcPath = path.resolve(this.rootPath, this.getConfig().src);
+    if (!fs.existsSync(srcPath)) {
+      throw new Error(`src directory not found at ${srcPath}`);
     }
   }
 
-  async compile(contractPath: string, contractName: string): Promise<CompilationResult> {
-    const fullContractPath = path.resolve(this.rootPath, contractPath);
-    
-    if (!fs.existsSync(fullContractPath)) {
-      throw new Error(`Contract file not found: ${fullContractPath}`);
+  /**
+   * Configuration of the active profile (`--profile`, then `FOUNDRY_PROFILE`, then `default`)
+   */
+  getConfig(): FoundryConfig {
+    if (!this.config) {
+      this.config = loadFoundryConfig(this.rootPath, this.options.profile);
     }
+    return this.config;
+  }
 
-    const artifactPath = path.join(this.rootPath, "out", path.basename(contractPath), `${contractName}.json`);
-    
-    try {
-      execSync("forge build", { 
-        cwd: this.rootPath, 
-        stdio: "pipe" 
-      });
-    } catch (error: any) {
-      throw new Error(`Compilation failed: ${error.message}`);
-    }
+  async compile(contractPath: string, contractName: string): Promise<CompilationResult> {
+    let artifactPath: string;
 
-    if (!fs.existsSync(artifactPath)) {
-      throw new Error(`Artifact not found after compilation: ${artifactPath}`);
+    if (this.options.artifact) {
+      artifactPath = path.resolve(this.options.artifact);
+      if (!fs.existsSync(artifactPath)) {
+        throw new Error(`Artifact not found: ${artifactPath}`);
+      }
+    } else {
+      const fullContractPath = path.resolve(this.rootPath, contractPath);
+      if (!fs.existsSync(fullContractPath)) {
+        throw new Error(`Contract file not found: ${fullContractPath}`);
+      }
+
+      this.build();
+      artifactPath = await this.findArtifact(contractPath, contractName);
     }
 
     const artifactContent = fs.readFileSync(artifactPath, "utf8");
@@ -73,52 +108,236 @@ export class FoundryProject {
     } else {
       metadata = artifact.metadata;
     }
-    const sourceFiles = await this.collectSourceFiles(fullContractPath, metadata);
+    if (this.options.artifact && metadata.settings?.compilationTarget?.[contractPath] !== contractName) {
+      throw new Error(`${artifactPath} is not the artifact of ${contractPath}:${contractName}`);
+    }
+    if (this.options.noCompile) {
+      this.assertArtifactFresh(metadata, artifactPath);
+    }
+
+    const { input, buildInfoPath } = await this.findBuildInfo(metadata, this.buildInfoPaths(artifactPath));
+    const sourceFiles = this.collectSourceFiles(metadata, input);
 
     return {
       metadata,
-      sourceFiles
+      sourceFiles,
+      linkReferences: artifact.bytecode?.linkReferences ?? {},
+      deployedLinkReferences: artifact.deployedBytecode?.linkReferences ?? {},
+      bytecode: artifact.bytecode?.object ?? "",
+      deployedBytecode: artifact.deployedBytecode?.object ?? "",
+      input,
+      buildInfoPath
     };
   }
 
-  private async collectSourceFiles(mainContractPath: string, metadata: any): Promise<Record<string, string>> {
-    const sourceFiles: Record<string, string> = {};
-    
-    const sourceUnit = metadata.sources || {};
-    
-    for (const sourcePath of Object.keys(sourceUnit)) {
-      let fullPath: string;
-      
-      if (path.isAbsolute(sourcePath)) {
-        fullPath = sourcePath;
-      } else {
-        fullPath = path.resolve(this.rootPath, sourcePath);
-      }
+  /**
+   * Runs `forge build --build-info` once per project instance, unless compilation is disabled
+   */
+  build(force = false): void {
+    if (this.options.noCompile || (this.built && !force)) {
+      return;
+    }
+
+    try {
+      execSync(`forge build --build-info${force ? " --force" : ""}`, { 
+        cwd: this.rootPath, 
+        stdio: "pipe",
+        env: { ...process.env, FOUNDRY_PROFILE: this.getConfig().profile }
+      });
+    } catch (error: any) {
+      throw new Error(`Compilation failed: ${error.message}`);
+    }
 
-      if (!fs.existsSync(fullPath)) {
-        const libPath = path.join(this.rootPath, "lib");
-        if (fs.existsSync(libPath)) {
-          const possiblePaths = await glob(`${libPath}/**/${sourcePath}`, { absolute: true });
-          if (possiblePaths.length > 0) {
-            fullPath = possiblePaths[0];
+    this.built = true;
+  }
+
+  /**
+   * Finds the source path of a contract by name using the compilation targets of the artifacts
+   */
+  async findContractSource(contractName: string): Promise<string> {
+    this.build();
+
+    const artifactPaths = await glob(`*.sol/{${contractName}.json,${contractName}.*.json}`, { cwd: this.outPath, absolute: true });
+    const sources = new Set<string>();
+
+    for (const artifactPath of artifactPaths) {
+      try {
+        const artifact = JSON.parse(fs.readFileSync(artifactPath, "utf8"));
+        const metadata = typeof artifact.metadata === 'string' ? JSON.parse(artifact.metadata) : artifact.metadata;
+        for (const [sourcePath, name] of Object.entries(metadata?.settings?.compilationTarget ?? {})) {
+          if (name === contractName) {
+            sources.add(sourcePath);
           }
         }
+      } catch (error: any) {
+        continue;
       }
+    }
+
+    if (sources.size === 0) {
+      throw new Error(`No artifact found for contract ${contractName}`);
+    }
+    if (sources.size > 1) {
+      throw new Error(`Contract name ${contractName} is ambiguous: ${[...sources].join(", ")}`);
+    }
 
-      if (fs.existsSync(fullPath)) {
-        const relativePath = path.relative(this.rootPath, fullPath);
-        const content = fs.readFileSync(fullPath, "utf8");
-        sourceFiles[relativePath] = content;
-      } else {
-        console.warn(`Warning: Source file not found: ${sourcePath}`);
+    return [...sources][0];
+  }
+
+  /**
+   * Reads the libraries configured for the profile (`libraries = ["path:Name:0xaddr"]`)
+   */
+  getConfiguredLibraries(): LibraryAddresses {
+    const libraries: LibraryAddresses = {};
+    for (const entry of this.getConfig().libraries) {
+      const [file, name, address] = entry.split(":");
+      if (file && name && address) {
+        libraries[`${file}:${name}`] = address;
+      }
+    }
+
+    return libraries;
+  }
+
+  /**
+   * Reads the remappings of `remappings.txt` and of the profile, in increasing priority
+   */
+  getConfiguredRemappings(): string[] {
+    const remappings: string[] = [];
+
+    const remappingsTxtPath = path.join(this.rootPath, "remappings.txt");
+    if (fs.existsSync(remappingsTxtPath)) {
+      remappings.push(...fs.readFileSync(remappingsTxtPath, "utf8").split(/\r?\n/));
+    }
+    remappings.push(...this.getConfig().remappings);
+
+    return remappings.map((remapping) => remapping.trim()).filter((remapping) => remapping && !remapping.startsWith("#"));
+  }
+
+  private get outPath(): string {
+    return path.resolve(this.rootPath, this.getConfig().out);
+  }
+
+  /**
+   * Locates the artifact of a contract: `<out>/<File>.sol/<Name>.json`, or
+   * `<Name>.<version>.json` when the file was compiled with several solc versions
+   */
+  private async findArtifact(contractPath: string, contractName: string): Promise<string> {
+    const artifactDir = path.join(this.outPath, path.basename(contractPath));
+    const artifactPaths = await glob(`{${contractName}.json,${contractName}.*.json}`, { cwd: artifactDir, absolute: true });
+    const sourcePath = path.relative(this.rootPath, path.resolve(this.rootPath, contractPath)).split(path.sep).join("/");
+
+    const matching = artifactPaths.filter((artifactPath) => {
+      try {
+        const artifact = JSON.parse(fs.readFileSync(artifactPath, "utf8"));
+        const metadata = typeof artifact.metadata === 'string' ? JSON.parse(artifact.metadata) : artifact.metadata;
+        return metadata?.settings?.compilationTarget?.[sourcePath] === contractName;
+      } catch (error: any) {
+        return false;
+      }
+    });
+
+    if (matching.length === 0) {
+      throw new Error(`Artifact not found after compilation: ${path.join(artifactDir, `${contractName}.json`)}`);
+    }
+    if (matching.length > 1) {
+      throw new Error(`${contractPath}:${contractName} was compiled with several compiler versions: ${matching.map((artifactPath) => path.basename(artifactPath)).join(", ")}`);
+    }
+
+    return matching[0];
+  }
+
+  /**
+   * Build-info files to search: the explicit `buildInfo` option, the `build-info`
+   * directory next to the artifact's and the one of the project
+   */
+  private async buildInfoPaths(artifactPath: string): Promise<string[]> {
+    const locations = [
+      this.options.buildInfo && path.resolve(this.options.buildInfo),
+      path.join(path.dirname(path.dirname(artifactPath)), "build-info"),
+      path.join(this.outPath, "build-info"),
+    ].filter((location): location is string => !!location && fs.existsSync(location));
+
+    const paths = await Promise.all(
+      [...new Set(locations)].map((location) =>
+        fs.statSync(location).isDirectory() ? glob("*.json", { cwd: location, absolute: true }) : [location]
+      )
+    );
+    return [...new Set(paths.flat())];
+  }
+
+  /**
+   * Finds the build-info holding the standard JSON input the metadata was produced from,
+   * i.e. whose sources match the keccak256 hashes recorded in the metadata. Cached sources
+   * compiled before build-info was enabled have none, so the project is rebuilt with
+   * `--force` once before giving up.
+   */
+  private async findBuildInfo(metadata: any, candidates: Promise<string[]>, forced = false): Promise<{ input: any; buildInfoPath: string }> {
+    const buildInfoPaths = await candidates;
+    let mismatch: string | undefined;
+
+    for (const buildInfoPath of buildInfoPaths) {
+      let buildInfo: any;
+      try {
+        buildInfo = JSON.parse(fs.readFileSync(buildInfoPath, "utf8"));
+      } catch (error: any) {
+        continue;
+      }
+
+      const sources = buildInfo.input?.sources ?? {};
+      const compiledSources = Object.entries<any>(metadata.sources ?? {});
+      if (compiledSources.length === 0 || !compiledSources.every(([sourcePath]) => sources[sourcePath])) {
+        continue;
       }
+
+      const changed = compiledSources.find(
+        ([sourcePath, source]) => source.keccak256 && keccak256(toUtf8Bytes(sources[sourcePath].content)) !== source.keccak256
+      );
+      if (changed) {
+        mismatch = `Source hash mismatch for ${changed[0]}: ${buildInfoPath} does not match the compiled metadata`;
+        continue;
+      }
+
+      return { input: buildInfo.input, buildInfoPath };
+    }
+
+    if (!forced && !this.options.noCompile) {
+      this.build(true);
+      return this.findBuildInfo(metadata, glob("build-info/*.json", { cwd: this.outPath, absolute: true }), true);
     }
 
-    const mainContractRelative = path.relative(this.rootPath, mainContractPath);
-    if (!sourceFiles[mainContractRelative]) {
-      sourceFiles[mainContractRelative] = fs.readFileSync(mainContractPath, "utf8");
+    const target = Object.keys(metadata.settings?.compilationTarget ?? {}).join(", ");
+    throw new Error(
+      mismatch ??
+        `No build-info found for ${target}` +
+          (this.options.noCompile ? ". Compile with `forge build --build-info` or pass the build-info file." : ` in ${path.join(this.outPath, "build-info")}`)
+    );
+  }
+
+  /**
+   * Fails when a source on disk changed since the artifact was compiled. Sources
+   * missing on disk (e.g. artifacts shipped by another team) are not checked.
+   */
+  private assertArtifactFresh(metadata: any, artifactPath: string): void {
+    const stale = Object.entries<any>(metadata.sources ?? {}).filter(([sourcePath, source]) => {
+      const fullPath = path.resolve(this.rootPath, sourcePath);
+      return source.keccak256 && fs.existsSync(fullPath) && keccak256(fs.readFileSync(fullPath)) !== source.keccak256;
+    });
+
+    if (stale.length > 0) {
+      throw new Error(
+        `Artifact ${artifactPath} is stale, these sources changed since it was compiled: ${stale.map(([sourcePath]) => sourcePath).join(", ")}. ` +
+          "Rebuild the project or verify without --no-compile."
+      );
     }
+  }
 
-    return sourceFiles;
+  /**
+   * Takes the sources of the contract from the build-info input
+   */
+  private collectSourceFiles(metadata: any, input: any): Record<string, string> {
+    return Object.fromEntries(
+      Object.keys(metadata.sources ?? {}).map((sourcePath) => [sourcePath, input.sources[sourcePath].content as string])
+    );
   }
-}
\ No newline at end of file
+}
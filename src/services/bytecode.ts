@@ -0,0 +1,94 @@
+import { LinkReferences } from "./libraries";
+
+/**
+ * Byte range inside a bytecode (offsets in bytes, as emitted by solc)
+ */
+export interface ByteRange {
+  start: number;
+  length: number;
+}
+
+export type ImmutableReferences = Record<string, ByteRange[]>;
+
+/**
+ * Removes the `0x` prefix and lowercases a bytecode
+ */
+export function normalizeBytecode(bytecode: string): string {
+  return bytecode.replace(/^0x/, "").toLowerCase();
+}
+
+/**
+ * Strips the trailing CBOR encoded metadata appended by solc.
+ * The last two bytes hold the length of the CBOR map.
+ */
+export function stripMetadata(bytecode: string): string {
+  const code = normalizeBytecode(bytecode);
+  if (code.length < 4) {
+    return code;
+  }
+
+  const metadataLength = parseInt(code.slice(-4), 16) * 2;
+  const metadataStart = code.length - 4 - metadataLength;
+  if (metadataLength === 0 || metadataStart < 0) {
+    return code;
+  }
+
+  // CBOR maps emitted by solc start with 0xa1..0xa5
+  const mapHeader = code.slice(metadataStart, metadataStart + 2);
+  if (!/^a[1-5]$/.test(mapHeader)) {
+    return code;
+  }
+
+  return code.slice(0, metadataStart);
+}
+
+export function immutableRanges(
+  immutableReferences: ImmutableReferences = {}
+): ByteRange[] {
+  return Object.values(immutableReferences).flat();
+}
+
+export function linkRanges(linkReferences: LinkReferences = {}): ByteRange[] {
+  return Object.values(linkReferences).flatMap((libraries) =>
+    Object.values(libraries).flat()
+  );
+}
+
+/**
+ * Replaces the given byte ranges with zeros so they don't affect comparisons
+ */
+export function maskRanges(bytecode: string, ranges: ByteRange[]): string {
+  let code = normalizeBytecode(bytecode);
+  for (const { start, length } of ranges) {
+    if (start * 2 >= code.length) continue;
+    code =
+      code.slice(0, start * 2) +
+      "0".repeat(length * 2) +
+      code.slice((start + length) * 2);
+  }
+  return code;
+}
+
+/**
+ * Returns the byte offsets at which two bytecodes differ
+ */
+export function diffBytes(left: string, right: string): number[] {
+  const a = normalizeBytecode(left);
+  const b = normalizeBytecode(right);
+  const offsets: number[] = [];
+  const length = Math.max(a.length, b.length);
+
+  for (let i = 0; i < length; i += 2) {
+    if (a.slice(i, i + 2) !== b.slice(i, i + 2)) {
+      offsets.push(i / 2);
+    }
+  }
+
+  return offsets;
+}
+
+export function isWithinRanges(offset: number, ranges: ByteRange[]): boolean {
+  return ranges.some(
+    ({ start, length }) => offset >= start && offset < start + length
+  );
+}
@@ -0,0 +1,50 @@
+import { VerificationRequest } from "./filfox-verifier";
+
+/**
+ * `settings` of a solc standard JSON input, as far as they affect the bytecode
+ */
+export interface SolcSettings {
+  optimizer?: {
+    enabled?: boolean;
+    runs?: number;
+    details?: Record<string, any>;
+  };
+  evmVersion?: string;
+  viaIR?: boolean;
+  metadata?: {
+    bytecodeHash?: string;
+    appendCBOR?: boolean;
+    useLiteralContent?: boolean;
+  };
+}
+
+export type CompilerSettings = Pick<
+  VerificationRequest,
+  | "optimize"
+  | "optimizeRuns"
+  | "optimizerDetails"
+  | "evmVersion"
+  | "viaIR"
+  | "metadataSettings"
+>;
+
+/**
+ * Reads the compiler settings of a verification request from the exact solc input
+ * a contract was compiled with, so per-file overrides and multiple compilers
+ * of a project are honored. Missing values fall back to the solc defaults.
+ */
+export function toCompilerSettings(settings: SolcSettings = {}): CompilerSettings {
+  const { optimizer = {}, metadata = {} } = settings;
+
+  return {
+    optimize: optimizer.enabled ?? false,
+    optimizeRuns: optimizer.runs ?? 200,
+    optimizerDetails:
+      optimizer.details && Object.keys(optimizer.details).length > 0
+        ? JSON.stringify(optimizer.details)
+        : "",
+    evmVersion: settings.evmVersion ?? "default",
+    viaIR: settings.viaIR ?? false,
+    metadataSettings: Object.keys(metadata).length > 0 ? metadata : undefined,
+  };
+}
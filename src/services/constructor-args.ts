@@ -0,0 +1,70 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Interface, InterfaceAbi } from "ethers";
+import { loadJsOrJsonFile } from "./files";
+
+/**
+ * Constructor arguments either as already ABI-encoded hex or as raw values
+ */
+export type ConstructorArgsInput = string | unknown[];
+
+/**
+ * Loads constructor arguments from a CLI/task value.
+ *
+ * Accepts ABI-encoded hex (`0x...`), a path to a JSON file containing an array,
+ * or a path to a `.js` file exporting an array.
+ */
+export function loadConstructorArgs(
+  value: string,
+  cwd: string = process.cwd()
+): ConstructorArgsInput {
+  const trimmed = value.trim();
+
+  if (/^0x([0-9a-fA-F]{2})*$/.test(trimmed)) {
+    return trimmed;
+  }
+
+  const filePath = path.resolve(cwd, trimmed);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(
+      `Constructor arguments must be ABI-encoded hex or a path to a JSON/.js file: ${value}`
+    );
+  }
+
+  const args = loadJsOrJsonFile(filePath, "constructor arguments file");
+
+  if (!Array.isArray(args)) {
+    throw new Error(
+      `Constructor arguments file ${filePath} must contain an array of arguments`
+    );
+  }
+
+  return args;
+}
+
+/**
+ * ABI-encodes constructor arguments against the contract ABI.
+ * Returns the encoded arguments as hex without the `0x` prefix.
+ */
+export function encodeConstructorArgs(
+  abi: InterfaceAbi,
+  args: ConstructorArgsInput
+): string {
+  if (typeof args === "string") {
+    return args.replace(/^0x/, "").toLowerCase();
+  }
+
+  const contractInterface = new Interface(abi);
+  const expected = contractInterface.deploy.inputs.length;
+  if (args.length !== expected) {
+    throw new Error(
+      `Constructor expects ${expected} argument(s) but ${args.length} were provided`
+    );
+  }
+
+  try {
+    return contractInterface.encodeDeploy(args).replace(/^0x/, "");
+  } catch (error: any) {
+    throw new Error(`Failed to encode constructor arguments: ${error.message}`);
+  }
+}
@@ -0,0 +1,89 @@
+import * as fs from "fs";
+import * as path from "path";
+import { FilfoxRequestBody } from "./filfox-verifier";
+
+/**
+ * Files written by a dry run
+ */
+export interface DryRunOutput {
+  requestPath: string;
+  standardJsonPath?: string;
+}
+
+/**
+ * Converts a Filfox request body into a solc standard JSON input
+ */
+export function toStandardJsonInput(body: FilfoxRequestBody) {
+  const optimizerDetails = parseJsonField(body.optimizerDetails);
+  const libraries = parseJsonField(body.libraries);
+  const metadata = parseJsonField(body.metadata);
+
+  return {
+    language: body.language,
+    sources: body.sourceFiles,
+    settings: {
+      optimizer: {
+        enabled: body.optimize,
+        runs: body.optimizeRuns,
+        ...(optimizerDetails ? { details: optimizerDetails } : {}),
+      },
+      ...(body.evmVersion && body.evmVersion !== "default"
+        ? { evmVersion: body.evmVersion }
+        : {}),
+      ...(body.viaIR ? { viaIR: true } : {}),
+      ...(libraries ? { libraries } : {}),
+      ...(metadata ? { metadata } : {}),
+      outputSelection: {
+        "*": {
+          "*": ["abi", "evm.bytecode", "evm.deployedBytecode", "metadata"],
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Writes the exact request body (and optionally the standard JSON input) to disk
+ */
+export function writeVerificationPayload(
+  body: FilfoxRequestBody,
+  outputPath: string,
+  standardJsonPath?: string
+): DryRunOutput {
+  const requestPath = path.resolve(outputPath);
+  fs.mkdirSync(path.dirname(requestPath), { recursive: true });
+  fs.writeFileSync(requestPath, JSON.stringify(body, null, 2));
+
+  if (!standardJsonPath) {
+    return { requestPath };
+  }
+
+  const resolvedStandardJsonPath = path.resolve(standardJsonPath);
+  fs.mkdirSync(path.dirname(resolvedStandardJsonPath), { recursive: true });
+  fs.writeFileSync(
+    resolvedStandardJsonPath,
+    JSON.stringify(toStandardJsonInput(body), null, 2)
+  );
+
+  return { requestPath, standardJsonPath: resolvedStandardJsonPath };
+}
+
+/**
+ * Default output file of a dry run for an address
+ */
+export function defaultPayloadPath(address: string): string {
+  return `filfox-verification-${address}.json`;
+}
+
+const parseJsonField = (value: string): Record<string, any> | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && Object.keys(parsed).length > 0 ? parsed : undefined;
+  } catch (error) {
+    return undefined;
+  }
+};
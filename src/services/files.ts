@@ -0,0 +1,26 @@
+import * as fs from "fs";
+import { createRequire } from "module";
+
+/**
+ * Loads the value of a JSON file, or the export of a `.js`/`.cjs` file
+ * (its `default` export when it has one). Files are read anew on every call.
+ */
+export function loadJsOrJsonFile(
+  filePath: string,
+  description = "file"
+): unknown {
+  if (filePath.endsWith(".js") || filePath.endsWith(".cjs")) {
+    const load = createRequire(filePath);
+    delete load.cache[load.resolve(filePath)];
+    const loaded = load(filePath);
+    return loaded?.default ?? loaded;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error: any) {
+    throw new Error(
+      `Failed to parse ${description} ${filePath}: ${error.message}`
+    );
+  }
+}
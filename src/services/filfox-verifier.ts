@@ -1,20 +1,31 @@
-import * as path from "path";
-
-/**
- * Represents a Solidity source file with its content
- */
-interface SourceFile {
-  content: string;
-}
-
-/**
- * Configuration for import resolution
- */
-interface ImportResolver {
-  sourceFiles: Record<string, SourceFile>;
-  remappedSourceFiles: Record<string, SourceFile>;
-  remappings: Array<{ original: string; resolved: string }>;
-}
+import {
+  FilfoxNetwork,
+  NetworkInput,
+  getExplorerUrl,
+  getFilfoxNetwork,
+} from "./networks";
+import {
+  ImportReport,
+  SourceFile,
+  mergeRemappings,
+  parseRemappings,
+  resolveImports,
+} from "./import-resolver";
+import { resolveLicense } from "./license";
+import {
+  FilfoxHttpError,
+  RequestOptions,
+  fetchWithRetry,
+  readJson,
+} from "./http";
+import {
+  FilfoxResponse,
+  VerificationResult,
+  toFailedRequestResult,
+  toVerificationResult,
+} from "./verification-result";
+
+export type { SourceFile } from "./import-resolver";
 
 /**
  * Request structure for Filfox contract verification
@@ -26,338 +37,247 @@ export interface VerificationRequest {
   optimize: boolean;
   optimizeRuns: number;
   sourceFiles: Record<string, SourceFile>;
+  /** Filfox license identifier, detected from the SPDX-License-Identifier when empty */
   license: string;
   evmVersion: string;
   viaIR: boolean;
   libraries: string;
+  /** Contract metadata emitted by solc */
   metadata: any;
+  /** JSON of `settings.optimizer.details`, empty for the solc defaults */
   optimizerDetails: string;
+  /** `settings.metadata` of the solc input (bytecodeHash, appendCBOR, useLiteralContent) */
+  metadataSettings?: Record<string, any>;
+  constructorArgs?: string;
+  /** Fully qualified name of the verified contract, `path/File.sol:Name` */
+  compilationTarget?: string;
+  /** Include paths used during compilation, relative to the project root */
+  includePaths?: string[];
+  /** Project remappings (`[context:]prefix=target`), overridden by the metadata ones */
+  remappings?: string[];
+}
+
+/**
+ * Verification state of a contract as reported by the explorer
+ */
+export interface ContractStatus {
+  address: string;
+  verified: boolean;
+  explorerUrl: string;
+  contractName?: string;
+  compiler?: string;
+  license?: string;
 }
 
+/**
+ * Body posted to the Filfox verifyContract endpoint
+ */
+export type FilfoxRequestBody = Omit<
+  VerificationRequest,
+  | "metadata"
+  | "metadataSettings"
+  | "constructorArgs"
+  | "compilationTarget"
+  | "includePaths"
+  | "remappings"
+> & {
+  metadata: string;
+  constructorArgs: string;
+};
+
 /**
  * Simplified Filfox verifier with efficient import resolution
  *
  * This implementation recursively discovers only the necessary imports,
  * reducing payload size and preventing verification failures due to
- * redundant files.
+ * redundant files. It is shared by the CLI and the Hardhat plugin.
  */
 export class FilfoxVerifier {
-  private static readonly FILFOX_NETWORKS = {
-    314: "https://filfox.info/api/v1/tools/verifyContract",
-    314159: "https://calibration.filfox.info/api/v1/tools/verifyContract",
-  };
-
+  private apiUrl: string;
   private baseUrl: string;
-  private chainId: number;
-
-  constructor(chainId: number) {
-    this.baseUrl = FilfoxVerifier.FILFOX_NETWORKS[chainId];
-    this.chainId = chainId;
-
-    if (!this.baseUrl) {
-      throw new Error(`Unsupported chain ID: ${chainId}`);
-    }
+  private network: FilfoxNetwork;
+  private requestOptions: RequestOptions;
+
+  constructor(network: NetworkInput, requestOptions: RequestOptions = {}) {
+    this.network = getFilfoxNetwork(network);
+    this.requestOptions = requestOptions;
+    this.apiUrl = this.network.apiUrl;
+    this.baseUrl = `${this.apiUrl}/tools/verifyContract`;
   }
 
   /**
-   * Verifies a contract on Filfox with optimized source file resolution
+   * Returns the Filfox explorer page of an address on this network
    */
-  async verify(request: VerificationRequest): Promise<any> {
-    try {
-      // Parse remappings from metadata
-      const remappings = this.parseRemappings(
-        request.metadata.settings.remappings
-      );
-
-      // Create remapped source files
-      const remappedSourceFiles = this.createRemappedSourceFiles(
-        request.sourceFiles,
-        remappings
-      );
-
-      // Resolve only necessary imports recursively
-      const necessaryFiles = await this.resolveNecessaryImports({
-        sourceFiles: request.sourceFiles,
-        remappedSourceFiles,
-        remappings,
-      });
-
-      // Create request body with optimized source files
-      const requestBody = {
-        address: request.address,
-        language: request.language,
-        compiler: this.normalizeCompilerVersion(request.compiler),
-        optimize: request.optimize,
-        optimizeRuns: request.optimizeRuns,
-        sourceFiles: necessaryFiles,
-        license: request.license,
-        evmVersion: request.evmVersion,
-        viaIR: request.viaIR,
-        libraries: request.libraries,
-        metadata: "",
-        optimizerDetails: request.optimizerDetails,
-      };
-
-      // Submit to Filfox API
-      const response = await fetch(this.baseUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      const result = await response.json();
-
-      return result;
-    } catch (error: any) {
-      console.error("Filfox verification failed:", error);
-      return {
-        errorCode: 8,
-      };
-    }
+  getExplorerUrl(address: string): string {
+    return getExplorerUrl(this.network, address);
   }
 
   /**
-   * Parses remapping strings into structured format
+   * Verifies a contract on Filfox with optimized source file resolution.
+   * Never logs or throws on Filfox/network failures, the outcome is returned as a typed result.
    */
-  private parseRemappings(remappingsArray: string[]) {
-    return remappingsArray.map((mapping: string) => {
-      const [original, resolved] = mapping.split("=");
-      return { original: original.trim(), resolved: resolved.trim() };
-    });
-  }
-
-  /**
-   * Creates remapped source files based on remapping rules
-   */
-  private createRemappedSourceFiles(
-    sourceFiles: Record<string, SourceFile>,
-    remappings: Array<{ original: string; resolved: string }>
-  ): Record<string, SourceFile> {
-    const remappedFiles: Record<string, SourceFile> = {};
-
-    for (const [filePath, fileContent] of Object.entries(sourceFiles)) {
-      // Find matching remapping for this file path
-      const remapping = remappings.find((mapping) =>
-        filePath.startsWith(mapping.resolved)
-      );
+  async verify(request: VerificationRequest): Promise<VerificationResult> {
+    const warnings: string[] = [];
+    const requestBody = await this.prepareRequestBody(request, warnings);
+    const context = {
+      address: request.address,
+      explorerUrl: this.getExplorerUrl(request.address),
+      warnings,
+    };
 
-      if (remapping) {
-        const remappedPath = filePath.replace(
-          remapping.resolved,
-          remapping.original
-        );
-        remappedFiles[remappedPath] = fileContent;
+    let response: FilfoxResponse;
+    try {
+      response = await this.submit(requestBody);
+    } catch (error: any) {
+      if (error instanceof FilfoxHttpError) {
+        return toFailedRequestResult(error, context);
       }
+      throw error;
     }
 
-    return remappedFiles;
+    return toVerificationResult(response, context);
   }
 
   /**
-   * Recursively resolves only the necessary imports for compilation
-   * This is the core optimization that reduces redundant files
+   * Queries the explorer for the verification state of a contract
    */
-  private async resolveNecessaryImports(
-    resolver: ImportResolver
-  ): Promise<Record<string, SourceFile>> {
-    const necessaryFiles: Record<string, SourceFile> = {};
-    const processed = new Set<string>();
-    const allAvailableFiles = {
-      ...resolver.sourceFiles,
-      ...resolver.remappedSourceFiles,
-    };
+  async getStatus(address: string): Promise<ContractStatus> {
+    const response = await fetchWithRetry(
+      `${this.apiUrl}/address/${address}/contract`,
+      { headers: { Accept: "application/json" } },
+      this.requestOptions
+    );
 
-    // Start with entry source files, prioritizing remapped versions
-    const queue: string[] = [];
+    const status: ContractStatus = {
+      address,
+      verified: false,
+      explorerUrl: this.getExplorerUrl(address),
+    };
 
-    // Add remapped versions first (they take precedence)
-    for (const remappedPath of Object.keys(resolver.remappedSourceFiles)) {
-      queue.push(remappedPath);
+    if (response.status === 404) {
+      return status;
     }
-
-    // Add non-remapped files that don't have remapped equivalents
-    for (const originalPath of Object.keys(resolver.sourceFiles)) {
-      const hasRemappedVersion = Object.keys(resolver.remappedSourceFiles).some(
-        (remappedPath) => {
-          // Check if this original file has a corresponding remapped version
-          return resolver.remappings.some(
-            (mapping) =>
-              originalPath.startsWith(mapping.resolved) &&
-              remappedPath ===
-                originalPath.replace(mapping.resolved, mapping.original)
-          );
-        }
-      );
-
-      if (!hasRemappedVersion) {
-        queue.push(originalPath);
-      }
+    const contract: any = await readJson(response);
+    if (!contract?.contractName && !contract?.sourceFiles) {
+      return status;
     }
 
-    while (queue.length > 0) {
-      const currentFile = queue.shift()!;
-
-      if (processed.has(currentFile)) {
-        continue;
-      }
-
-      processed.add(currentFile);
-
-      // Add current file to necessary files if available
-      if (allAvailableFiles[currentFile]) {
-        necessaryFiles[currentFile] = allAvailableFiles[currentFile];
-
-        // Extract imports from this file
-        const imports = this.extractImports(
-          allAvailableFiles[currentFile].content
-        );
-
-        // Resolve each import and add to queue
-        for (const importPath of imports) {
-          const resolvedImport = this.resolveImportPath(
-            importPath,
-            currentFile,
-            resolver.remappings,
-            allAvailableFiles
-          );
-
-          if (resolvedImport && !processed.has(resolvedImport.path)) {
-            queue.push(resolvedImport.path);
-          }
-        }
-      }
-    }
-
-    return necessaryFiles;
+    return {
+      ...status,
+      verified: true,
+      contractName: contract.contractName,
+      compiler: contract.compiler,
+      license: contract.license || undefined,
+    };
   }
 
   /**
-   * Extracts import statements from Solidity source code
+   * Returns whether the explorer already knows the address, e.g. right after a deployment
    */
-  private extractImports(content: string): string[] {
-    const imports: string[] = [];
-    const importRegexes = [
-      /import\s+["']([^"']+)["']/g, // import "path"
-      /import\s*\{[^}]*\}\s*from\s+["']([^"']+)["']/g, // import {Symbol} from "path"
-      /import\s+\*\s+as\s+\w+\s+from\s+["']([^"']+)["']/g, // import * as Symbol from "path"
-      /import\s+\w+\s+from\s+["']([^"']+)["']/g, // import Symbol from "path"
-    ];
+  async isIndexed(address: string): Promise<boolean> {
+    const response = await fetchWithRetry(
+      `${this.apiUrl}/address/${address}`,
+      { headers: { Accept: "application/json" } },
+      this.requestOptions
+    );
 
-    for (const regex of importRegexes) {
-      let match: RegExpExecArray | null;
-      while ((match = regex.exec(content)) !== null) {
-        const importPath = match[1];
-        if (importPath && !imports.includes(importPath)) {
-          imports.push(importPath);
-        }
-      }
+    if (response.status === 404) {
+      return false;
     }
-
-    return imports;
+    const info: any = await readJson(response);
+    return !!info && !info.error;
   }
 
   /**
-   * Resolves an import path to the actual file path using compiler logic
+   * Builds the Filfox request body, pruning the sources to the necessary imports
    */
-  private resolveImportPath(
-    importPath: string,
-    currentFile: string,
-    remappings: Array<{ original: string; resolved: string }>,
-    availableFiles: Record<string, SourceFile>
-  ): { path: string; content: SourceFile } | null {
-    // Strategy 1: Check if import path exists directly
-    if (availableFiles[importPath]) {
-      return { path: importPath, content: availableFiles[importPath] };
-    }
-
-    // Strategy 2: Handle relative imports (./  ../)
-    if (importPath.startsWith("./") || importPath.startsWith("../")) {
-      const resolvedPath = this.resolveRelativeImport(importPath, currentFile);
-      if (availableFiles[resolvedPath]) {
-        return { path: resolvedPath, content: availableFiles[resolvedPath] };
-      }
-    }
-
-    // Strategy 3: Handle remapped imports
-    const remappedPath = this.resolveRemappedImport(importPath, remappings);
-    if (remappedPath && availableFiles[remappedPath]) {
-      return { path: remappedPath, content: availableFiles[remappedPath] };
-    }
-
-    // Strategy 4: Search in available files by filename
-    const fileName = path.basename(importPath);
-    for (const [filePath, fileContent] of Object.entries(availableFiles)) {
-      if (path.basename(filePath) === fileName) {
-        // Additional check: ensure path context makes sense
-        if (this.pathContextMatches(importPath, filePath)) {
-          return { path: filePath, content: fileContent };
-        }
-      }
-    }
-
-    console.warn(
-      `⚠️  Could not resolve import: ${importPath} from ${currentFile}`
+  async prepareRequestBody(
+    request: VerificationRequest,
+    warnings: string[] = []
+  ): Promise<FilfoxRequestBody> {
+    // Resolve only necessary imports recursively
+    const { sourceFiles, warnings: importWarnings } =
+      this.resolveSourceFiles(request);
+    warnings.push(...importWarnings);
+
+    const mainPath = request.compilationTarget?.slice(
+      0,
+      request.compilationTarget.lastIndexOf(":")
+    );
+    const license = resolveLicense(
+      request.license || undefined,
+      mainPath && request.sourceFiles[mainPath]
+        ? { path: mainPath, content: request.sourceFiles[mainPath].content }
+        : undefined,
+      warnings
     );
-    return null;
+
+    // Create request body with optimized source files
+    return {
+      address: request.address,
+      language: request.language,
+      compiler: this.normalizeCompilerVersion(request.compiler),
+      optimize: request.optimize,
+      optimizeRuns: request.optimizeRuns,
+      sourceFiles,
+      license,
+      evmVersion: request.evmVersion,
+      viaIR: request.viaIR,
+      libraries: request.libraries,
+      metadata: request.metadataSettings
+        ? JSON.stringify(request.metadataSettings)
+        : "",
+      optimizerDetails: request.optimizerDetails,
+      constructorArgs: request.constructorArgs ?? "",
+    };
   }
 
   /**
-   * Resolves relative imports based on current file context
+   * Submits a prepared request body to the Filfox API
    */
-  private resolveRelativeImport(
-    importPath: string,
-    currentFile: string
-  ): string {
-    const currentDir = path.dirname(currentFile);
-    return path.normalize(path.join(currentDir, importPath));
+  private async submit(requestBody: FilfoxRequestBody): Promise<FilfoxResponse> {
+    const response = await fetchWithRetry(
+      this.baseUrl,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(requestBody),
+      },
+      this.requestOptions
+    );
+
+    return readJson<FilfoxResponse>(response);
   }
 
   /**
-   * Resolves imports using remapping rules
+   * Explains how each import of the contract was resolved and which files were pruned
    */
-  private resolveRemappedImport(
-    importPath: string,
-    remappings: Array<{ original: string; resolved: string }>
-  ): string | null {
-    // Find best matching remapping (longest match first)
-    const sortedRemappings = remappings
-      .filter((mapping) => importPath.startsWith(mapping.original))
-      .sort((a, b) => b.original.length - a.original.length);
-
-    if (sortedRemappings.length > 0) {
-      const mapping = sortedRemappings[0];
-      return importPath.replace(mapping.original, mapping.resolved);
-    }
-
-    return null;
+  explainImports(request: VerificationRequest): ImportReport {
+    return this.resolveSourceFiles(request).report;
   }
 
   /**
-   * Checks if import path context matches the available file path
+   * Resolves the source files reachable from the contract to verify
    */
-  private pathContextMatches(
-    importPath: string,
-    availablePath: string
-  ): boolean {
-    const importSegments = importPath
-      .split("/")
-      .filter((s) => s && s !== "." && s !== "..");
-    const availableSegments = availablePath
-      .split("/")
-      .filter((s) => s && s !== "." && s !== "..");
-
-    // Count matching segments
-    let matches = 0;
-    for (const segment of importSegments) {
-      if (availableSegments.includes(segment)) {
-        matches++;
-      }
-    }
+  private resolveSourceFiles(request: VerificationRequest) {
+    // The metadata holds the remappings solc actually used, so they take precedence
+    // over the project files (remappings.txt, foundry.toml)
+    const remappings = mergeRemappings(
+      parseRemappings(request.remappings),
+      parseRemappings(request.metadata?.settings?.remappings)
+    );
+    const root = request.compilationTarget?.slice(
+      0,
+      request.compilationTarget.lastIndexOf(":")
+    );
 
-    // If most segments match, consider it a valid match
-    return matches >= Math.max(1, importSegments.length - 1);
+    return resolveImports(request.sourceFiles, {
+      remappings,
+      roots: root ? [root] : [],
+      includePaths: request.includePaths,
+    });
   }
 
   /**
@@ -367,3 +287,26 @@ export class FilfoxVerifier {
     return compiler.includes("v") ? compiler : `v${compiler}`;
   }
 }
+
+/**
+ * Verifies a contract on the Filfox instance of the given chain or custom network.
+ * Programmatic entry point used by the CLI and the Hardhat plugin.
+ */
+export async function verifyContract(
+  network: NetworkInput,
+  request: VerificationRequest,
+  requestOptions: RequestOptions = {}
+): Promise<VerificationResult> {
+  return new FilfoxVerifier(network, requestOptions).verify(request);
+}
+
+/**
+ * Returns whether a contract is already verified on the Filfox instance of the given chain
+ */
+export async function getVerificationStatus(
+  network: NetworkInput,
+  address: string,
+  requestOptions: RequestOptions = {}
+): Promise<ContractStatus> {
+  return new FilfoxVerifier(network, requestOptions).getStatus(address);
+}
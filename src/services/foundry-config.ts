@@ -0,0 +1,160 @@
+import * as fs from "fs";
+import * as path from "path";
+import { execSync } from "child_process";
+
+/**
+ * Subset of the Foundry configuration used for verification
+ */
+export interface FoundryConfig {
+  profile: string;
+  src: string;
+  out: string;
+  libs: string[];
+  remappings: string[];
+  /** Linked libraries, `path:Name:0xaddr` */
+  libraries: string[];
+}
+
+const DEFAULT_CONFIG: Omit<FoundryConfig, "profile"> = {
+  src: "src",
+  out: "out",
+  libs: ["lib"],
+  remappings: [],
+  libraries: [],
+};
+
+/**
+ * Returns the active profile: the explicit one, then `FOUNDRY_PROFILE`, then `default`
+ */
+export function resolveFoundryProfile(profile?: string): string {
+  return profile || process.env.FOUNDRY_PROFILE || "default";
+}
+
+/**
+ * Loads the configuration of a profile with `forge config --json`, which applies
+ * Foundry's own defaults and environment overrides. Falls back to parsing
+ * foundry.toml when forge is unavailable, and to the defaults without foundry.toml.
+ */
+export function loadFoundryConfig(
+  rootPath: string,
+  profile?: string
+): FoundryConfig {
+  const activeProfile = resolveFoundryProfile(profile);
+
+  let config: any;
+  try {
+    config = JSON.parse(
+      execSync("forge config --json", {
+        cwd: rootPath,
+        stdio: "pipe",
+        env: { ...process.env, FOUNDRY_PROFILE: activeProfile },
+      }).toString()
+    );
+  } catch (error: any) {
+    const foundryTomlPath = path.join(rootPath, "foundry.toml");
+    config = fs.existsSync(foundryTomlPath)
+      ? readFoundryToml(foundryTomlPath, activeProfile)
+      : {};
+  }
+
+  return {
+    profile: activeProfile,
+    src: config.src ?? DEFAULT_CONFIG.src,
+    out: config.out ?? DEFAULT_CONFIG.out,
+    libs: config.libs ?? DEFAULT_CONFIG.libs,
+    remappings: config.remappings ?? DEFAULT_CONFIG.remappings,
+    libraries: config.libraries ?? DEFAULT_CONFIG.libraries,
+  };
+}
+
+/**
+ * Reads a profile from foundry.toml. Like Foundry, a profile inherits the keys
+ * of `[profile.default]` it doesn't set itself.
+ */
+export function readFoundryToml(
+  foundryTomlPath: string,
+  profile: string
+): Record<string, any> {
+  const sections = parseToml(fs.readFileSync(foundryTomlPath, "utf8"));
+  const defaults = sections["profile.default"] ?? {};
+
+  if (profile !== "default" && !sections[`profile.${profile}`]) {
+    throw new Error(`Profile "${profile}" not found in ${foundryTomlPath}`);
+  }
+
+  return { ...defaults, ...sections[`profile.${profile}`] };
+}
+
+/**
+ * Minimal TOML reader for foundry.toml: `[section]` headers and `key = value`
+ * pairs with strings, numbers, booleans and (multi-line) arrays of those.
+ */
+const parseToml = (content: string): Record<string, Record<string, any>> => {
+  const sections: Record<string, Record<string, any>> = {};
+  let section = sections[""] = {};
+  const lines = content.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = stripComment(lines[i]).trim();
+    if (!line) continue;
+
+    const header = line.match(/^\[([^\[\]]+)\]$/);
+    if (header) {
+      const name = header[1].trim();
+      section = sections[name] = sections[name] ?? {};
+      continue;
+    }
+
+    const separator = line.indexOf("=");
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().replace(/^["']|["']$/g, "");
+    let value = line.slice(separator + 1).trim();
+
+    // Multi-line arrays continue until the brackets are balanced
+    while (value.startsWith("[") && !isBalanced(value) && i + 1 < lines.length) {
+      value += " " + stripComment(lines[++i]).trim();
+    }
+
+    section[key] = parseValue(value);
+  }
+
+  return sections;
+};
+
+const parseValue = (value: string): any => {
+  if (value.startsWith("[")) {
+    return [...value.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'|([^\s,\[\]]+)/g)].map(
+      ([, doubleQuoted, singleQuoted, bare]) =>
+        doubleQuoted ?? singleQuoted ?? parseValue(bare)
+    );
+  }
+  if (/^".*"$/.test(value) || /^'.*'$/.test(value)) {
+    return value.slice(1, -1);
+  }
+  if (value === "true" || value === "false") {
+    return value === "true";
+  }
+  if (/^[-+]?\d[\d_]*$/.test(value)) {
+    return Number(value.replace(/_/g, ""));
+  }
+  return value;
+};
+
+const stripComment = (line: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#") {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+};
+
+const isBalanced = (value: string): boolean =>
+  (value.match(/\[/g) ?? []).length <= (value.match(/\]/g) ?? []).length;
@@ -0,0 +1,135 @@
+/**
+ * Timeout and retry policy of the requests to the Filfox API
+ */
+export interface RequestOptions {
+  /** Timeout of a single attempt in milliseconds */
+  timeout?: number;
+  /** Retries after the first attempt on network errors, 429 and 5xx responses */
+  retries?: number;
+  /** Base delay of the exponential backoff in milliseconds */
+  retryDelay?: number;
+  /** Called before waiting for the next attempt */
+  onRetry?: (retry: { attempt: number; delay: number; reason: string }) => void;
+}
+
+export const DEFAULT_REQUEST_OPTIONS = {
+  timeout: 60_000,
+  retries: 3,
+  retryDelay: 1_000,
+};
+
+/** Longest wait honored from a `Retry-After` header */
+const MAX_RETRY_AFTER = 5 * 60_000;
+
+/**
+ * Why a request to Filfox failed before a Filfox response could be read
+ */
+export type HttpErrorCategory =
+  | "timeout"
+  | "network"
+  | "rateLimited"
+  | "server"
+  | "client"
+  | "invalidResponse";
+
+export class FilfoxHttpError extends Error {
+  constructor(
+    message: string,
+    public readonly category: HttpErrorCategory,
+    public readonly httpStatus?: number,
+    public readonly attempts: number = 1
+  ) {
+    super(message);
+    this.name = "FilfoxHttpError";
+  }
+}
+
+/**
+ * Fetches with a timeout per attempt, retrying network errors, timeouts, 429 and 5xx
+ * responses with exponential backoff (or the delay of a `Retry-After` header).
+ * Other responses are returned as is, failures left after the last retry throw a FilfoxHttpError.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: RequestOptions = {}
+): Promise<Response> {
+  const timeout = options.timeout ?? DEFAULT_REQUEST_OPTIONS.timeout;
+  const retries = options.retries ?? DEFAULT_REQUEST_OPTIONS.retries;
+  const retryDelay = options.retryDelay ?? DEFAULT_REQUEST_OPTIONS.retryDelay;
+
+  for (let attempt = 1; ; attempt++) {
+    let failure: FilfoxHttpError;
+    let delay = retryDelay * 2 ** (attempt - 1);
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        signal: AbortSignal.timeout(timeout),
+      });
+      if (!isRetryableStatus(response.status)) {
+        return response;
+      }
+
+      failure = new FilfoxHttpError(
+        `Filfox responded with ${response.status} ${response.statusText}`,
+        response.status === 429 ? "rateLimited" : "server",
+        response.status,
+        attempt
+      );
+      delay = parseRetryAfter(response.headers.get("retry-after")) ?? delay;
+    } catch (error: any) {
+      failure =
+        error.name === "TimeoutError"
+          ? new FilfoxHttpError(`Request to ${url} timed out after ${timeout}ms`, "timeout", undefined, attempt)
+          : new FilfoxHttpError(error.cause?.message ?? error.message, "network", undefined, attempt);
+    }
+
+    if (attempt > retries) {
+      throw failure;
+    }
+
+    options.onRetry?.({ attempt, delay, reason: failure.message });
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * Parses a JSON response body, failing with a typed error on HTTP errors or invalid JSON
+ */
+export async function readJson<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    throw new FilfoxHttpError(
+      `Filfox responded with ${response.status} ${response.statusText}`,
+      "client",
+      response.status
+    );
+  }
+
+  try {
+    return (await response.json()) as T;
+  } catch (error: any) {
+    throw new FilfoxHttpError(
+      `Filfox returned an invalid response: ${error.message}`,
+      "invalidResponse",
+      response.status
+    );
+  }
+}
+
+const isRetryableStatus = (status: number): boolean =>
+  status === 429 || status >= 500;
+
+/**
+ * Reads a `Retry-After` header given in seconds or as an HTTP date
+ */
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+
+  const delay = /^\d+$/.test(value.trim())
+    ? Number(value) * 1000
+    : Date.parse(value) - Date.now();
+  if (Number.isNaN(delay)) return undefined;
+
+  return Math.min(Math.max(delay, 0), MAX_RETRY_AFTER);
+};
@@ -0,0 +1,333 @@
+import * as path from "path";
+import { parseImports } from "./solidity-imports";
+
+/**
+ * Represents a Solidity source file with its content
+ */
+export interface SourceFile {
+  content: string;
+}
+
+/**
+ * An import remapping, `context:prefix=target`
+ */
+export interface Remapping {
+  context: string;
+  prefix: string;
+  target: string;
+}
+
+/**
+ * How a single import directive was resolved
+ */
+export interface ResolvedImport {
+  /** Source unit name of the importing file in the payload */
+  importer: string;
+  /** Import path as written in the source */
+  importPath: string;
+  /** Source unit name the import gets in the payload */
+  sourceUnit: string;
+  /** Compiled source file providing the content, undefined when unresolved */
+  origin?: string;
+  via: "direct" | "relative" | "remapping" | "include-path" | "unresolved";
+  /** Remapping applied to the import, if any */
+  remapping?: string;
+}
+
+/**
+ * Diagnostic report of the import resolution
+ */
+export interface ImportReport {
+  roots: string[];
+  imports: ResolvedImport[];
+  /** Source files sent to Filfox, keyed by payload source unit name */
+  included: Record<string, string>;
+  /** Compiled source files not needed by the contract */
+  pruned: string[];
+}
+
+export interface ImportResolutionOptions {
+  remappings: Remapping[];
+  /** Entry source units, all source files when empty */
+  roots?: string[];
+  /** Include paths relative to the base path (the root of the source unit names) */
+  includePaths?: string[];
+}
+
+/**
+ * Parses remapping strings (`[context:]prefix=target`) into structured format.
+ * Blank lines and `#` comments are skipped, so the lines of a `remappings.txt`
+ * can be passed as is.
+ */
+export function parseRemappings(remappings: string[] = []): Remapping[] {
+  return remappings
+    .map((mapping) => mapping.trim())
+    .filter((mapping) => mapping && !mapping.startsWith("#"))
+    .map(parseRemapping);
+}
+
+/**
+ * Parses a single remapping. The context is everything before the first `:`
+ * of the left-hand side. When either side ends with a slash both do, matching
+ * how Foundry normalizes directory remappings.
+ */
+export function parseRemapping(mapping: string): Remapping {
+  const separator = mapping.indexOf("=");
+  if (separator === -1) {
+    throw new Error(`Invalid remapping "${mapping}": expected [context:]prefix=target`);
+  }
+
+  const left = mapping.slice(0, separator);
+  const colon = left.indexOf(":");
+  const context = colon === -1 ? "" : left.slice(0, colon).trim();
+  let prefix = (colon === -1 ? left : left.slice(colon + 1)).trim();
+  let target = mapping.slice(separator + 1).trim();
+
+  if (!prefix) {
+    throw new Error(`Invalid remapping "${mapping}": empty prefix`);
+  }
+
+  if (prefix.endsWith("/") || target.endsWith("/")) {
+    prefix = prefix.endsWith("/") ? prefix : `${prefix}/`;
+    target = !target || target.endsWith("/") ? target : `${target}/`;
+  }
+
+  return { context, prefix, target };
+}
+
+export function formatRemapping({ context, prefix, target }: Remapping): string {
+  return `${context ? `${context}:` : ""}${prefix}=${target}`;
+}
+
+/**
+ * Merges remapping sources in increasing priority: a remapping with the same
+ * context and prefix as an earlier one replaces it.
+ */
+export function mergeRemappings(...sources: Remapping[][]): Remapping[] {
+  const merged = new Map<string, Remapping>();
+  for (const remapping of sources.flat()) {
+    const key = `${remapping.context}:${remapping.prefix}`;
+    merged.delete(key);
+    merged.set(key, remapping);
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Applies the remapping solc would choose for an import: the longest matching
+ * context wins, then the longest matching prefix, then the last one defined.
+ */
+export function resolveRemappedImport(
+  sourceUnitName: string,
+  importer: string,
+  remappings: Remapping[]
+): { path: string; remapping?: Remapping } {
+  let best: Remapping | undefined;
+
+  for (const remapping of remappings) {
+    if (
+      !importer.startsWith(remapping.context) ||
+      !sourceUnitName.startsWith(remapping.prefix)
+    ) {
+      continue;
+    }
+
+    if (
+      !best ||
+      remapping.context.length > best.context.length ||
+      (remapping.context.length === best.context.length &&
+        remapping.prefix.length >= best.prefix.length)
+    ) {
+      best = remapping;
+    }
+  }
+
+  if (!best) {
+    return { path: sourceUnitName };
+  }
+
+  return {
+    path: best.target + sourceUnitName.slice(best.prefix.length),
+    remapping: best,
+  };
+}
+
+/**
+ * Recursively resolves the imports of the entry files following solc's rules
+ * and returns only the files necessary for compilation.
+ *
+ * Payload source unit names are the unremapped import paths, because Filfox
+ * compiles the payload without remappings. Ambiguous resolutions throw instead
+ * of guessing.
+ */
+export function resolveImports(
+  sourceFiles: Record<string, SourceFile>,
+  options: ImportResolutionOptions
+): {
+  sourceFiles: Record<string, SourceFile>;
+  report: ImportReport;
+  warnings: string[];
+} {
+  const roots = (options.roots ?? []).filter((root) => sourceFiles[root]);
+  const entries = roots.length > 0 ? roots : Object.keys(sourceFiles);
+
+  // payload source unit name -> compiled source file
+  const included = new Map<string, string>();
+  const imports: ResolvedImport[] = [];
+  const warnings: string[] = [];
+  const queue: string[] = [];
+
+  const include = (sourceUnit: string, origin: string) => {
+    const existing = included.get(sourceUnit);
+    if (existing && existing !== origin) {
+      // e.g. context-scoped remappings pulling two versions of a dependency
+      // under the same import path, which a compilation without remappings can't express
+      throw new Error(
+        `Ambiguous import: ${sourceUnit} resolves to both ${existing} and ${origin}. ` +
+          "Filfox compiles without remappings, so one import path can't refer to two files"
+      );
+    }
+    if (!existing) {
+      included.set(sourceUnit, origin);
+      queue.push(sourceUnit);
+    }
+  };
+
+  entries.forEach((entry) => include(entry, entry));
+
+  while (queue.length > 0) {
+    const importer = queue.shift()!;
+    const importerOrigin = included.get(importer)!;
+
+    for (const { path: importPath } of parseImports(
+      sourceFiles[importerOrigin].content
+    )) {
+      const resolved = resolveImport(
+        importPath,
+        importer,
+        importerOrigin,
+        sourceFiles,
+        options
+      );
+      imports.push(resolved);
+
+      if (resolved.origin) {
+        include(resolved.sourceUnit, resolved.origin);
+      } else {
+        warnings.push(
+          `Could not resolve import: ${importPath} from ${importer}`
+        );
+      }
+    }
+  }
+
+  const origins = new Set(included.values());
+
+  return {
+    sourceFiles: Object.fromEntries(
+      [...included].map(([sourceUnit, origin]) => [
+        sourceUnit,
+        sourceFiles[origin],
+      ])
+    ),
+    report: {
+      roots: entries,
+      imports,
+      included: Object.fromEntries(included),
+      pruned: Object.keys(sourceFiles).filter((file) => !origins.has(file)),
+    },
+    warnings,
+  };
+}
+
+/**
+ * Resolves a single import directive.
+ *
+ * Relative imports (`./`, `../`) are resolved against the importing source unit name,
+ * direct imports are used verbatim. Remappings then apply to the result, and the
+ * remapped name is looked up under the base path and each include path.
+ */
+const resolveImport = (
+  importPath: string,
+  importer: string,
+  importerOrigin: string,
+  sourceFiles: Record<string, SourceFile>,
+  options: ImportResolutionOptions
+): ResolvedImport => {
+  const relative = importPath.startsWith("./") || importPath.startsWith("../");
+  const sourceUnit = relative
+    ? path.posix.normalize(path.posix.join(path.posix.dirname(importer), importPath))
+    : importPath;
+  const compiledName = relative
+    ? path.posix.normalize(
+        path.posix.join(path.posix.dirname(importerOrigin), importPath)
+      )
+    : importPath;
+
+  const remapped = resolveRemappedImport(
+    compiledName,
+    importerOrigin,
+    options.remappings
+  );
+  const remapping = remapped.remapping
+    ? formatRemapping(remapped.remapping)
+    : undefined;
+
+  const candidates = [
+    remapped.path,
+    ...(options.includePaths ?? []).map((includePath) =>
+      path.posix.join(includePath, remapped.path)
+    ),
+  ].filter((candidate) => sourceFiles[candidate]);
+  const unique = [...new Set(candidates)];
+
+  if (unique.length > 1) {
+    throw new Error(
+      `Ambiguous import "${importPath}" in ${importer}: matches ${unique.join(", ")}`
+    );
+  }
+
+  const base = { importer, importPath, sourceUnit, remapping };
+  if (unique.length === 0) {
+    return { ...base, via: "unresolved" };
+  }
+
+  return {
+    ...base,
+    origin: unique[0],
+    via:
+      unique[0] !== remapped.path
+        ? "include-path"
+        : remapped.remapping
+          ? "remapping"
+          : relative
+            ? "relative"
+            : "direct",
+  };
+};
+
+/**
+ * Formats an import report as printable lines
+ */
+export function formatImportReport(report: ImportReport): string[] {
+  const lines = [`Entry files: ${report.roots.join(", ")}`, "", "Imports:"];
+
+  for (const resolved of report.imports) {
+    const target = resolved.origin
+      ? resolved.origin === resolved.sourceUnit
+        ? resolved.origin
+        : `${resolved.sourceUnit} -> ${resolved.origin}`
+      : "UNRESOLVED";
+    const remapping = resolved.remapping ? ` [${resolved.remapping}]` : "";
+    lines.push(
+      `  ${resolved.importer}: "${resolved.importPath}" => ${target} (${resolved.via}${remapping})`
+    );
+  }
+
+  lines.push("", `Included (${Object.keys(report.included).length}):`);
+  lines.push(...Object.keys(report.included).map((file) => `  ${file}`));
+  lines.push("", `Pruned (${report.pruned.length}):`);
+  lines.push(...report.pruned.map((file) => `  ${file}`));
+
+  return lines;
+}
@@ -0,0 +1,188 @@
+import * as fs from "fs";
+import * as path from "path";
+import { isAddress } from "ethers";
+import { loadJsOrJsonFile } from "./files";
+
+/**
+ * Library addresses keyed by `Name` or fully qualified `path/File.sol:Name`
+ */
+export type LibraryAddresses = Record<string, string>;
+
+/**
+ * Link references as emitted by solc: source file -> library name -> offsets
+ */
+export type LinkReferences = Record<
+  string,
+  Record<string, Array<{ start: number; length: number }>>
+>;
+
+export interface LinkedLibraries {
+  libraries: Record<string, Record<string, string>>;
+  missing: string[];
+}
+
+const SOLIDITY_IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Parses `Name=0xaddr` entries from the CLI or a comma separated task param
+ */
+export function parseLibraryOption(
+  value: string | string[] | undefined
+): LibraryAddresses {
+  const entries = (Array.isArray(value) ? value : [value ?? ""])
+    .flatMap((entry) => entry.split(","))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  const libraries: LibraryAddresses = {};
+  for (const entry of entries) {
+    const separator = entry.lastIndexOf("=");
+    const name = entry.slice(0, separator).trim();
+    const address = entry.slice(separator + 1).trim();
+
+    if (separator <= 0 || !name) {
+      throw new Error(
+        `Invalid library "${entry}". Expected format: Name=0xAddress`
+      );
+    }
+    if (!SOLIDITY_IDENTIFIER.test(name.slice(name.lastIndexOf(":") + 1))) {
+      throw new Error(
+        `Invalid library name "${name}". Expected a Solidity identifier, optionally prefixed with path/File.sol:`
+      );
+    }
+    if (!isAddress(address)) {
+      throw new Error(`Invalid address for library ${name}: ${address}`);
+    }
+
+    libraries[name] = address;
+  }
+
+  return libraries;
+}
+
+/**
+ * Loads library addresses from a JSON or `.js` file exporting `{ Name: address }`,
+ * the format of hardhat-verify's `--libraries` option
+ */
+export function loadLibrariesFile(
+  value: string,
+  cwd: string = process.cwd()
+): LibraryAddresses {
+  const filePath = path.resolve(cwd, value);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Libraries file not found: ${value}`);
+  }
+
+  const libraries = loadJsOrJsonFile(filePath, "libraries file");
+
+  if (!libraries || typeof libraries !== "object" || Array.isArray(libraries)) {
+    throw new Error(
+      `Libraries file ${filePath} must export an object of library addresses`
+    );
+  }
+
+  return parseLibraryOption(
+    Object.entries(libraries).map(([name, address]) => `${name}=${address}`)
+  );
+}
+
+/**
+ * Matches the libraries referenced by the bytecode against the provided
+ * addresses and groups them by source file as expected by solc.
+ */
+export function linkLibraries(
+  provided: LibraryAddresses,
+  linkReferences: LinkReferences = {},
+  sourceFiles: Record<string, { content: string }> = {}
+): LinkedLibraries {
+  const libraries: Record<string, Record<string, string>> = {};
+  const missing: string[] = [];
+  const used = new Set<string>();
+
+  const addLibrary = (file: string, name: string, address: string) => {
+    libraries[file] = { ...libraries[file], [name]: address };
+  };
+
+  for (const [file, names] of Object.entries(linkReferences)) {
+    for (const name of Object.keys(names)) {
+      // Later entries take precedence, so explicit options override config
+      const keys = Object.keys(provided).filter(
+        (k) => k === `${file}:${name}` || k === name
+      );
+      keys.forEach((k) => used.add(k));
+      if (keys.length > 0) {
+        addLibrary(file, name, provided[keys[keys.length - 1]]);
+      } else {
+        missing.push(`${file}:${name}`);
+      }
+    }
+  }
+
+  // Libraries not present in the link references (e.g. no artifact available)
+  for (const [key, address] of Object.entries(provided)) {
+    if (used.has(key)) continue;
+
+    const separator = key.lastIndexOf(":");
+    if (separator > 0) {
+      addLibrary(key.slice(0, separator), key.slice(separator + 1), address);
+      continue;
+    }
+
+    const declaringFile = Object.keys(sourceFiles).find((file) =>
+      new RegExp(`\\blibrary\\s+${key}\\b`).test(sourceFiles[file].content)
+    );
+    if (!declaringFile) {
+      throw new Error(`Library ${key} is not declared in any source file`);
+    }
+    addLibrary(declaringFile, key, address);
+  }
+
+  return { libraries, missing };
+}
+
+/**
+ * Flattens standard JSON input libraries (`{ file: { Name: address } }`) to `path:Name` keys
+ */
+export function flattenLibraries(
+  libraries: Record<string, Record<string, string>> = {}
+): LibraryAddresses {
+  return Object.fromEntries(
+    Object.entries(libraries).flatMap(([file, names]) =>
+      Object.entries(names).map(([name, address]) => [`${file}:${name}`, address])
+    )
+  );
+}
+
+/**
+ * Serializes linked libraries for the Filfox `libraries` field
+ */
+export function formatLibraries(
+  libraries: Record<string, Record<string, string>>
+): string {
+  return Object.keys(libraries).length > 0 ? JSON.stringify(libraries) : "";
+}
+
+/**
+ * Links the provided libraries and fails if the bytecode still references
+ * libraries without an address.
+ */
+export function resolveLibraries(
+  provided: LibraryAddresses,
+  linkReferences: LinkReferences | undefined,
+  sourceFiles: Record<string, { content: string }>
+): string {
+  const { libraries, missing } = linkLibraries(
+    provided,
+    linkReferences,
+    sourceFiles
+  );
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing addresses for linked libraries: ${missing.join(", ")}. ` +
+        "Provide them with --libraries Name=0xAddress"
+    );
+  }
+
+  return formatLibraries(libraries);
+}
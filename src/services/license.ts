@@ -0,0 +1,118 @@
+/**
+ * License identifiers accepted by Filfox
+ */
+export const FILFOX_LICENSES = [
+  "None",
+  "Unlicense",
+  "MIT",
+  "GPL-2.0",
+  "GPL-3.0",
+  "LGPL-2.1",
+  "LGPL-3.0",
+  "BSD-2-Clause",
+  "BSD-3-Clause",
+  "MPL-2.0",
+  "OSL-3.0",
+  "Apache-2.0",
+  "AGPL-3.0",
+  "BUSL-1.1",
+] as const;
+
+export type FilfoxLicense = (typeof FILFOX_LICENSES)[number];
+
+/** SPDX identifiers that differ from the Filfox ones */
+const SPDX_ALIASES: Record<string, FilfoxLicense> = {
+  UNLICENSED: "None",
+  "GPL-2.0-only": "GPL-2.0",
+  "GPL-2.0-or-later": "GPL-2.0",
+  "GPL-3.0-only": "GPL-3.0",
+  "GPL-3.0-or-later": "GPL-3.0",
+  "LGPL-2.1-only": "LGPL-2.1",
+  "LGPL-2.1-or-later": "LGPL-2.1",
+  "LGPL-3.0-only": "LGPL-3.0",
+  "LGPL-3.0-or-later": "LGPL-3.0",
+  "AGPL-3.0-only": "AGPL-3.0",
+  "AGPL-3.0-or-later": "AGPL-3.0",
+  "BSL-1.1": "BUSL-1.1",
+};
+
+/**
+ * Reads the `SPDX-License-Identifier` of a Solidity source
+ */
+export function parseSpdxLicense(source: string): string | undefined {
+  const match = source.match(
+    /SPDX-License-Identifier:\s*([^\n\r]*?)\s*(?:\*\/|$)/m
+  );
+  return match?.[1] || undefined;
+}
+
+/**
+ * Maps an SPDX license expression to a Filfox license. For expressions such as
+ * `MIT OR Apache-2.0` the first license Filfox knows is used.
+ */
+export function toFilfoxLicense(spdx: string): FilfoxLicense | undefined {
+  const licenses = spdx
+    .replace(/[()]/g, " ")
+    .split(/\s+(?:OR|AND|WITH)\s+/)
+    .map((license) => license.trim());
+
+  for (const license of licenses) {
+    const known = FILFOX_LICENSES.find(
+      (filfoxLicense) => filfoxLicense.toLowerCase() === license.toLowerCase()
+    );
+    if (known || SPDX_ALIASES[license]) {
+      return known ?? SPDX_ALIASES[license];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Picks the license sent to Filfox: the explicit one when given, otherwise the one
+ * detected in the main contract source. Unknown, missing or mismatching identifiers
+ * are reported as warnings.
+ */
+export function resolveLicense(
+  override: string | undefined,
+  mainSource: { path: string; content: string } | undefined,
+  warnings: string[]
+): string {
+  const detected = mainSource ? parseSpdxLicense(mainSource.content) : undefined;
+  const detectedLicense = detected ? toFilfoxLicense(detected) : undefined;
+
+  if (override) {
+    const license = toFilfoxLicense(override);
+    if (!license) {
+      warnings.push(
+        `License "${override}" is not accepted by Filfox (${FILFOX_LICENSES.join(", ")})`
+      );
+      return override;
+    }
+    if (detected && detectedLicense !== license) {
+      warnings.push(
+        `License ${license} differs from the SPDX-License-Identifier of ${mainSource!.path} (${detected})`
+      );
+    }
+    return license;
+  }
+
+  if (!mainSource) {
+    warnings.push("Main contract unknown, no license detected. Pass one with --license");
+    return "";
+  }
+  if (!detected) {
+    warnings.push(
+      `No SPDX-License-Identifier found in ${mainSource.path}. Pass one with --license`
+    );
+    return "";
+  }
+  if (!detectedLicense) {
+    warnings.push(
+      `SPDX license "${detected}" of ${mainSource.path} has no Filfox equivalent. Pass one with --license`
+    );
+    return "";
+  }
+
+  return detectedLicense;
+}
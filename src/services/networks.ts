@@ -0,0 +1,142 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Filfox deployment for a Filecoin network
+ */
+export interface FilfoxNetwork {
+  chainId: number;
+  name: string;
+  apiUrl: string;
+  explorerUrl: string;
+}
+
+/**
+ * User supplied network, e.g. a local Filfox-compatible explorer
+ */
+export interface FilfoxNetworkConfig {
+  name?: string;
+  apiUrl: string;
+  explorerUrl: string;
+}
+
+/**
+ * A chain ID of a registered network or an explicit network definition
+ */
+export type NetworkInput = number | string | FilfoxNetwork;
+
+/**
+ * Default config file looked up in the working directory by the CLI
+ */
+export const FILFOX_CONFIG_FILE = "filfox.config.json";
+
+/**
+ * Networks supported by Filfox, keyed by chain ID
+ */
+export const FILFOX_NETWORKS: Record<number, FilfoxNetwork> = {
+  314: {
+    chainId: 314,
+    name: "Filecoin Mainnet",
+    apiUrl: "https://filfox.info/api/v1",
+    explorerUrl: "https://filfox.info",
+  },
+  314159: {
+    chainId: 314159,
+    name: "Filecoin Calibration Testnet",
+    apiUrl: "https://calibration.filfox.info/api/v1",
+    explorerUrl: "https://calibration.filfox.info",
+  },
+};
+
+export function isFilfoxNetwork(chainId: number | string): boolean {
+  return !!FILFOX_NETWORKS[Number(chainId)];
+}
+
+export function getFilfoxNetwork(network: NetworkInput): FilfoxNetwork {
+  if (typeof network === "object") {
+    return network;
+  }
+
+  const registered = FILFOX_NETWORKS[Number(network)];
+  if (!registered) {
+    throw new Error(`Unsupported chain ID: ${network}`);
+  }
+  return registered;
+}
+
+/**
+ * Builds a network definition from an API/explorer URL pair
+ */
+export function createFilfoxNetwork(
+  chainId: number | string,
+  config: FilfoxNetworkConfig
+): FilfoxNetwork {
+  if (!config.apiUrl || !config.explorerUrl) {
+    throw new Error(
+      `Network ${chainId} requires both an apiUrl and an explorerUrl`
+    );
+  }
+
+  return {
+    chainId: Number(chainId),
+    name: config.name ?? `Custom network ${chainId}`,
+    apiUrl: config.apiUrl.replace(/\/+$/, ""),
+    explorerUrl: config.explorerUrl.replace(/\/+$/, ""),
+  };
+}
+
+/**
+ * Adds networks keyed by chain ID to the registry, overriding built-in ones
+ */
+export function registerFilfoxNetworks(
+  networks: Record<string, FilfoxNetworkConfig> = {}
+): void {
+  for (const [chainId, config] of Object.entries(networks)) {
+    if (Number.isNaN(Number(chainId))) {
+      throw new Error(`Invalid chain ID in Filfox network config: ${chainId}`);
+    }
+    FILFOX_NETWORKS[Number(chainId)] = createFilfoxNetwork(chainId, config);
+  }
+}
+
+/**
+ * Registers the networks of a Filfox config file (`{ "networks": { "<chainId>": {...} } }`).
+ * Without an explicit path, `filfox.config.json` is used when present.
+ */
+export function loadFilfoxConfig(
+  configPath?: string,
+  cwd: string = process.cwd()
+): void {
+  const filePath = path.resolve(cwd, configPath ?? FILFOX_CONFIG_FILE);
+  if (!fs.existsSync(filePath)) {
+    if (configPath) {
+      throw new Error(`Filfox config file not found at ${filePath}`);
+    }
+    return;
+  }
+
+  let config: any;
+  try {
+    config = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error: any) {
+    throw new Error(`Failed to parse Filfox config ${filePath}: ${error.message}`);
+  }
+
+  registerFilfoxNetworks(config.networks);
+}
+
+/**
+ * Returns the Filfox explorer page of an address
+ */
+export function getExplorerUrl(network: NetworkInput, address: string): string {
+  return `${getFilfoxNetwork(network).explorerUrl}/en/address/${address}`;
+}
+
+/**
+ * Describes the supported networks, e.g. for CLI error messages
+ */
+export function describeFilfoxNetworks(): string[] {
+  return Object.values(FILFOX_NETWORKS).map(
+    ({ chainId, name }) => `${String(chainId).padEnd(6)} - ${name}`
+  );
+}
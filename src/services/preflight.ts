@@ -0,0 +1,278 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { glob } from "glob";
+import solc from "solc";
+import { FilfoxRequestBody } from "./filfox-verifier";
+import { toStandardJsonInput } from "./dry-run";
+import {
+  ByteRange,
+  diffBytes,
+  immutableRanges,
+  isWithinRanges,
+  linkRanges,
+  maskRanges,
+  normalizeBytecode,
+  stripMetadata,
+} from "./bytecode";
+import { LinkReferences } from "./libraries";
+
+/**
+ * Where a bytecode difference was found
+ */
+export type MismatchCategory =
+  | "compilation"
+  | "constructorArgs"
+  | "immutables"
+  | "libraries"
+  | "code";
+
+/**
+ * Bytecode the local compilation is compared against
+ */
+export interface PreflightTarget {
+  /** Fully qualified contract name, `path/File.sol:Name` */
+  contract: string;
+  /** Deployed (runtime) bytecode, from the chain or from an artifact */
+  deployedBytecode: string;
+  /** Whether `deployedBytecode` was read from the chain (immutables are then filled in) */
+  onChain: boolean;
+  /** Library placeholders left in an unlinked artifact `deployedBytecode` */
+  linkReferences?: LinkReferences;
+  /** Creation transaction input, used to check the constructor arguments */
+  creationInput?: string;
+}
+
+export interface PreflightReport {
+  match: boolean;
+  compiler: string;
+  mismatch?: MismatchCategory;
+  details: string[];
+}
+
+const MISMATCH_DESCRIPTIONS: Record<MismatchCategory, string> = {
+  compilation: "the sources do not compile locally",
+  constructorArgs: "the constructor arguments differ from the deployment",
+  immutables: "immutable values differ",
+  libraries: "linked library addresses differ",
+  code: "the compiled code differs",
+};
+
+interface LoadedCompiler {
+  source: string;
+  compile(input: string): string;
+}
+
+/**
+ * Recompiles the pruned payload locally with the same solc version and settings
+ * and compares the result with the target bytecode, ignoring the metadata hash.
+ */
+export async function preflightVerification(
+  body: FilfoxRequestBody,
+  target: PreflightTarget
+): Promise<PreflightReport> {
+  const compiler = await loadCompiler(body.compiler);
+  const output = JSON.parse(
+    compiler.compile(JSON.stringify(toStandardJsonInput(body)))
+  );
+
+  const errors = (output.errors ?? []).filter(
+    (error: any) => error.severity === "error"
+  );
+  if (errors.length > 0) {
+    return {
+      match: false,
+      compiler: compiler.source,
+      mismatch: "compilation",
+      details: errors.map((error: any) => error.formattedMessage ?? error.message),
+    };
+  }
+
+  const separator = target.contract.lastIndexOf(":");
+  const sourceName = target.contract.slice(0, separator);
+  const contractName = target.contract.slice(separator + 1);
+  const compiled = output.contracts?.[sourceName]?.[contractName]?.evm;
+  if (!compiled) {
+    return {
+      match: false,
+      compiler: compiler.source,
+      mismatch: "compilation",
+      details: [`${target.contract} not found in the compiler output`],
+    };
+  }
+
+  const report = compareRuntime(
+    compiled.deployedBytecode,
+    target.deployedBytecode,
+    target.onChain,
+    target.linkReferences
+  );
+  if (report.mismatch || !target.creationInput) {
+    return { ...report, compiler: compiler.source };
+  }
+
+  return {
+    ...compareConstructorArgs(
+      compiled.bytecode.object,
+      target.creationInput,
+      body.constructorArgs
+    ),
+    compiler: compiler.source,
+  };
+}
+
+/**
+ * Summarizes a preflight report as a headline and detail lines
+ */
+export function describePreflightReport(report: PreflightReport): {
+  message: string;
+  details: string[];
+} {
+  if (report.match) {
+    return {
+      message: "Local compilation matches the target bytecode.",
+      details: [`Compiler: ${report.compiler}`],
+    };
+  }
+
+  return {
+    message: `Payload will not match: ${MISMATCH_DESCRIPTIONS[report.mismatch ?? "code"]}.`,
+    details: [...report.details, `Compiler: ${report.compiler}`],
+  };
+}
+
+const compareRuntime = (
+  compiled: {
+    object: string;
+    immutableReferences?: Record<string, ByteRange[]>;
+    linkReferences?: any;
+  },
+  targetBytecode: string,
+  onChain: boolean,
+  targetLinkReferences?: LinkReferences
+): Omit<PreflightReport, "compiler"> => {
+  // The local compilation is linked, an unlinked target only holds placeholders there
+  const placeholders = linkRanges(targetLinkReferences);
+  const local = maskRanges(stripMetadata(compiled.object), placeholders);
+  const remote = maskRanges(stripMetadata(targetBytecode), placeholders);
+
+  if (local.length !== remote.length) {
+    return {
+      match: false,
+      mismatch: "code",
+      details: [
+        `Runtime bytecode length differs: local ${local.length / 2} bytes, target ${remote.length / 2} bytes`,
+      ],
+    };
+  }
+
+  const immutables = immutableRanges(compiled.immutableReferences);
+  const links = linkRanges(compiled.linkReferences);
+  const offsets = diffBytes(local, remote);
+
+  // Immutables are only filled in on-chain, zeros in artifacts
+  const relevant = offsets.filter(
+    (offset) => !(onChain && isWithinRanges(offset, immutables))
+  );
+  if (relevant.length === 0) {
+    return { match: true, details: [] };
+  }
+
+  const describe = (category: MismatchCategory, count: number) => ({
+    match: false,
+    mismatch: category,
+    details: [
+      `${count} byte(s) differ, first at offset ${relevant[0]} of the runtime bytecode`,
+    ],
+  });
+
+  if (relevant.every((offset) => isWithinRanges(offset, links))) {
+    return describe("libraries", relevant.length);
+  }
+  if (relevant.every((offset) => isWithinRanges(offset, immutables))) {
+    return describe("immutables", relevant.length);
+  }
+  return describe("code", relevant.length);
+};
+
+const compareConstructorArgs = (
+  compiledCreation: string,
+  creationInput: string,
+  constructorArgs: string
+): Omit<PreflightReport, "compiler"> => {
+  const creation = normalizeBytecode(compiledCreation);
+  const input = normalizeBytecode(creationInput);
+  const deployedArgs = input.slice(creation.length);
+  const providedArgs = normalizeBytecode(constructorArgs);
+
+  if (deployedArgs === providedArgs) {
+    return { match: true, details: [] };
+  }
+
+  return {
+    match: false,
+    mismatch: "constructorArgs",
+    details: [
+      `Deployed constructor arguments: 0x${deployedArgs}`,
+      `Provided constructor arguments: 0x${providedArgs}`,
+    ],
+  };
+};
+
+/**
+ * Loads solc from the Foundry (svm) or Hardhat compiler cache, falling back to solc-js
+ */
+const loadCompiler = async (version: string): Promise<LoadedCompiler> => {
+  const longVersion = version.startsWith("v") ? version : `v${version}`;
+  const shortVersion = longVersion.slice(1).split("+")[0];
+
+  const svmBinary = path.join(
+    os.homedir(),
+    ".svm",
+    shortVersion,
+    `solc-${shortVersion}`
+  );
+  if (fs.existsSync(svmBinary)) {
+    return nativeCompiler(svmBinary);
+  }
+
+  const hardhatCaches = [
+    path.join(os.homedir(), ".cache", "hardhat-nodejs", "compilers-v2"),
+    path.join(os.homedir(), "Library", "Caches", "hardhat-nodejs", "compilers-v2"),
+  ].filter((dir) => fs.existsSync(dir));
+  for (const cacheDir of hardhatCaches) {
+    const [cached] = await glob(`**/*-v${shortVersion}+commit*`, {
+      cwd: cacheDir,
+      absolute: true,
+      nodir: true,
+      ignore: "**/*.does.not.work",
+    });
+    if (!cached) continue;
+
+    if (cached.endsWith(".js")) {
+      const wrapped = solc.setupMethods(require(cached));
+      return { source: cached, compile: (input) => wrapped.compile(input) };
+    }
+    return nativeCompiler(cached);
+  }
+
+  const remote = await new Promise<any>((resolve, reject) =>
+    solc.loadRemoteVersion(longVersion, (error: Error | null, loaded: any) =>
+      error ? reject(error) : resolve(loaded)
+    )
+  );
+  return {
+    source: `solc-js ${longVersion}`,
+    compile: (input) => remote.compile(input),
+  };
+};
+
+const nativeCompiler = (binary: string): LoadedCompiler => ({
+  source: binary,
+  compile: (input) =>
+    execFileSync(binary, ["--standard-json"], {
+      input,
+      maxBuffer: 256 * 1024 * 1024,
+    }).toString(),
+});
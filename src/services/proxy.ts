@@ -0,0 +1,76 @@
+import { Interface, Provider, ZeroAddress, getAddress } from "ethers";
+
+/**
+ * ERC-1967 storage slots, `bytes32(uint256(keccak256("eip1967.proxy.<name>")) - 1)`
+ */
+export const ERC1967_SLOTS = {
+  implementation:
+    "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc",
+  admin: "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103",
+  beacon: "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50",
+} as const;
+
+export type ProxyKind = "transparent" | "uups" | "beacon";
+
+/**
+ * Proxy detected from the ERC-1967 slots of a contract
+ */
+export interface ProxyInfo {
+  kind: ProxyKind;
+  /** Current implementation, read from the beacon for beacon proxies */
+  implementation: string;
+  admin?: string;
+  beacon?: string;
+}
+
+const beaconInterface = new Interface([
+  "function implementation() view returns (address)",
+]);
+
+/**
+ * Reads the ERC-1967 slots of a contract. Returns undefined when the address is
+ * not a proxy: a beacon proxy has the beacon slot set, a transparent proxy the
+ * admin slot and a UUPS proxy only the implementation slot.
+ */
+export async function detectProxy(
+  provider: Provider,
+  address: string
+): Promise<ProxyInfo | undefined> {
+  const [implementation, admin, beacon] = await Promise.all(
+    [ERC1967_SLOTS.implementation, ERC1967_SLOTS.admin, ERC1967_SLOTS.beacon].map(
+      async (slot) => toAddress(await provider.getStorage(address, slot))
+    )
+  );
+
+  if (beacon) {
+    const result = await provider.call({
+      to: beacon,
+      data: beaconInterface.encodeFunctionData("implementation"),
+    });
+    const [beaconImplementation] = beaconInterface.decodeFunctionResult(
+      "implementation",
+      result
+    );
+    return {
+      kind: "beacon",
+      implementation: getAddress(beaconImplementation),
+      beacon,
+    };
+  }
+
+  if (!implementation) {
+    return undefined;
+  }
+
+  return admin
+    ? { kind: "transparent", implementation, admin }
+    : { kind: "uups", implementation };
+}
+
+/**
+ * Converts a storage word holding an address, undefined when it is empty
+ */
+const toAddress = (word: string): string | undefined => {
+  const address = getAddress("0x" + word.slice(-40));
+  return address === ZeroAddress ? undefined : address;
+};
@@ -0,0 +1,191 @@
+/**
+ * A symbol imported with `import {Symbol as Alias} from "path"`
+ */
+export interface ImportedSymbol {
+  symbol: string;
+  alias?: string;
+}
+
+/**
+ * An import directive of a Solidity source unit
+ */
+export interface SolidityImport {
+  path: string;
+  /** Alias of the whole unit: `import "path" as X` or `import * as X from "path"` */
+  unitAlias?: string;
+  symbols: ImportedSymbol[];
+}
+
+const IDENTIFIER = /[A-Za-z0-9_$]+/y;
+
+type Token =
+  | { type: "identifier"; value: string }
+  | { type: "string"; value: string }
+  | { type: "punctuation"; value: string };
+
+/**
+ * Extracts every import directive of a Solidity source.
+ * Comments and string literals are tokenized away, so imports inside them are ignored.
+ */
+export function parseImports(source: string): SolidityImport[] {
+  const tokens = tokenize(source);
+  const imports: SolidityImport[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const previous = tokens[i - 1];
+    if (
+      token.type !== "identifier" ||
+      token.value !== "import" ||
+      (previous?.type === "punctuation" && previous.value === ".")
+    ) {
+      continue;
+    }
+
+    const parsed = parseImportDirective(tokens, i + 1);
+    if (parsed) {
+      imports.push(parsed.directive);
+      i = parsed.end;
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Parses the tokens following an `import` keyword
+ */
+const parseImportDirective = (
+  tokens: Token[],
+  start: number
+): { directive: SolidityImport; end: number } | null => {
+  let i = start;
+  const peek = () => tokens[i];
+  const isPunctuation = (value: string) =>
+    peek()?.type === "punctuation" && peek()?.value === value;
+  const isKeyword = (value: string) =>
+    peek()?.type === "identifier" && peek()?.value === value;
+  const readIdentifier = (): string | null => {
+    const token = peek();
+    if (token?.type !== "identifier") return null;
+    i++;
+    return token.value;
+  };
+  const readString = (): string | null => {
+    const token = peek();
+    if (token?.type !== "string") return null;
+    i++;
+    return token.value;
+  };
+  const readFrom = (): string | null => {
+    if (!isKeyword("from")) return null;
+    i++;
+    return readString();
+  };
+
+  const directive: SolidityImport = { path: "", symbols: [] };
+
+  if (peek()?.type === "string") {
+    // import "path"; / import "path" as Alias;
+    directive.path = readString()!;
+    if (isKeyword("as")) {
+      i++;
+      const alias = readIdentifier();
+      if (!alias) return null;
+      directive.unitAlias = alias;
+    }
+  } else if (isPunctuation("*")) {
+    // import * as Alias from "path";
+    i++;
+    if (!isKeyword("as")) return null;
+    i++;
+    const alias = readIdentifier();
+    const path = readFrom();
+    if (!alias || path === null) return null;
+    directive.unitAlias = alias;
+    directive.path = path;
+  } else if (isPunctuation("{")) {
+    // import {A, B as C} from "path";
+    i++;
+    while (!isPunctuation("}")) {
+      const symbol = readIdentifier();
+      if (!symbol) return null;
+
+      let alias: string | undefined;
+      if (isKeyword("as")) {
+        i++;
+        alias = readIdentifier() ?? undefined;
+        if (!alias) return null;
+      }
+      directive.symbols.push(alias ? { symbol, alias } : { symbol });
+
+      if (isPunctuation(",")) {
+        i++;
+      } else if (!isPunctuation("}")) {
+        return null;
+      }
+    }
+    i++;
+    const path = readFrom();
+    if (path === null) return null;
+    directive.path = path;
+  } else if (peek()?.type === "identifier") {
+    // import Alias from "path"; (legacy form)
+    const alias = readIdentifier()!;
+    const path = readFrom();
+    if (path === null) return null;
+    directive.unitAlias = alias;
+    directive.path = path;
+  } else {
+    return null;
+  }
+
+  if (!isPunctuation(";")) return null;
+  return { directive, end: i };
+};
+
+/**
+ * Splits Solidity source into identifiers, string literals and punctuation,
+ * dropping whitespace and comments
+ */
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (source.startsWith("//", i)) {
+      const end = source.indexOf("\n", i);
+      i = end === -1 ? source.length : end + 1;
+    } else if (source.startsWith("/*", i)) {
+      const end = source.indexOf("*/", i + 2);
+      i = end === -1 ? source.length : end + 2;
+    } else if (char === '"' || char === "'") {
+      let value = "";
+      i++;
+      while (i < source.length && source[i] !== char && source[i] !== "\n") {
+        if (source[i] === "\\" && i + 1 < source.length) {
+          value += source[i + 1];
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      i++;
+      tokens.push({ type: "string", value });
+    } else if (/[A-Za-z_$]/.test(char)) {
+      IDENTIFIER.lastIndex = i;
+      const match = IDENTIFIER.exec(source)!;
+      tokens.push({ type: "identifier", value: match[0] });
+      i += match[0].length;
+    } else {
+      tokens.push({ type: "punctuation", value: char });
+      i++;
+    }
+  }
+
+  return tokens;
+};
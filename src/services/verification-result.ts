@@ -0,0 +1,216 @@
+import { FilfoxHttpError } from "./http";
+
+/**
+ * Raw response of the Filfox verifyContract endpoint
+ */
+export interface FilfoxResponse {
+  errorCode: number;
+  contractName?: string;
+  errorMsg?: string;
+}
+
+interface VerificationContext {
+  address: string;
+  explorerUrl: string;
+  warnings: string[];
+}
+
+/**
+ * Typed outcome of a verification, discriminated by `status`
+ */
+export type VerificationResult = VerificationContext & {
+  /** Raw Filfox response, absent when the request failed before one was read */
+  response?: FilfoxResponse;
+} & (
+    | { status: "verified"; contractName: string }
+    | { status: "alreadyVerified" }
+    | { status: "bytecodeMismatch"; contractName?: string }
+    | { status: "compileError"; message: string }
+    | { status: "networkError"; category: "timeout" | "network"; message: string }
+    | {
+        status: "httpError";
+        category: "rateLimited" | "server" | "client" | "invalidResponse";
+        httpStatus?: number;
+        message: string;
+      }
+    | { status: "rejected"; errorCode: number; message: string }
+  );
+
+export type VerificationStatus = VerificationResult["status"];
+
+/**
+ * Human readable description of a result shared by the CLI and the Hardhat plugin
+ */
+export interface VerificationOutcome {
+  success: boolean;
+  label: string;
+  message: string;
+  hints: string[];
+}
+
+const REJECTION_MESSAGES: Record<number, string> = {
+  1: "No source file provided.",
+  2: "Contract initCode not found.",
+  3: "Load remote compiler failed.",
+  5: "Unsupported language.",
+};
+
+/**
+ * Translates a raw Filfox response into a typed verification result
+ */
+export function toVerificationResult(
+  response: FilfoxResponse,
+  context: VerificationContext
+): VerificationResult {
+  const base = { ...context, response };
+
+  switch (response.errorCode) {
+    case 0:
+      return {
+        ...base,
+        status: "verified",
+        contractName: response.contractName ?? "",
+      };
+    case 4:
+      return {
+        ...base,
+        status: "bytecodeMismatch",
+        contractName: response.contractName,
+      };
+    case 6:
+      return { ...base, status: "alreadyVerified" };
+    case 7:
+      return {
+        ...base,
+        status: "compileError",
+        message: response.errorMsg ?? "",
+      };
+    default:
+      return {
+        ...base,
+        status: "rejected",
+        errorCode: response.errorCode,
+        message:
+          REJECTION_MESSAGES[response.errorCode] ??
+          response.errorMsg ??
+          "Unknown verification error occurred.",
+      };
+  }
+}
+
+/**
+ * Translates a request failure into a result, keeping HTTP failures apart from Filfox error codes
+ */
+export function toFailedRequestResult(
+  error: FilfoxHttpError,
+  context: VerificationContext
+): VerificationResult {
+  const attempts = error.attempts > 1 ? ` (after ${error.attempts} attempts)` : "";
+  const message = `${error.message}${attempts}`;
+
+  switch (error.category) {
+    case "timeout":
+    case "network":
+      return { ...context, status: "networkError", category: error.category, message };
+    default:
+      return {
+        ...context,
+        status: "httpError",
+        category: error.category,
+        httpStatus: error.httpStatus,
+        message,
+      };
+  }
+}
+
+export function isVerificationSuccessful(result: VerificationResult): boolean {
+  return result.status === "verified" || result.status === "alreadyVerified";
+}
+
+/**
+ * Describes a verification result with a message and hints for console output
+ */
+export function describeVerificationResult(
+  result: VerificationResult
+): VerificationOutcome {
+  const failed = (label: string, message: string, hints: string[] = []) => ({
+    success: false,
+    label,
+    message,
+    hints,
+  });
+
+  switch (result.status) {
+    case "verified":
+      return {
+        success: true,
+        label: "verified",
+        message: `Contract "${result.contractName}" verified successfully!`,
+        hints: [],
+      };
+    case "alreadyVerified":
+      return {
+        success: true,
+        label: "already verified",
+        message: "Contract already verified.",
+        hints: [],
+      };
+    case "bytecodeMismatch":
+      return failed(
+        "bytecode mismatch",
+        `Error: Verification failed for contract "${result.contractName}" - bytecode mismatch.`,
+        ["Check source files and compiler settings."]
+      );
+    case "compileError":
+      return failed("compilation error", "Compilation error in source files.", [
+        `Details: ${result.message}`,
+      ]);
+    case "networkError":
+      return failed(
+        result.category === "timeout" ? "timeout" : "network error",
+        result.category === "timeout"
+          ? "Error: Request to Filfox timed out."
+          : "Error: Request to Filfox failed.",
+        [
+          `Details: ${result.message}`,
+          "Check your connection or raise the timeout (--timeout, or `filfox.timeout` in the Hardhat config).",
+        ]
+      );
+    case "httpError":
+      switch (result.category) {
+        case "rateLimited":
+          return failed("rate limited", "Error: Filfox rate limit exceeded.", [
+            `Details: ${result.message}`,
+            "Wait a moment before retrying, or raise the retries (--retries, or `filfox.retries` in the Hardhat config).",
+          ]);
+        case "server":
+          return failed(`HTTP ${result.httpStatus}`, "Error: Filfox is unavailable.", [
+            `Details: ${result.message}`,
+            "Please contact us on [Telegram](https://t.me/Filfoxofficial) if the error persists.",
+          ]);
+        default:
+          return failed(
+            result.httpStatus ? `HTTP ${result.httpStatus}` : "invalid response",
+            "Error: Filfox could not process the request.",
+            [`Details: ${result.message}`]
+          );
+      }
+    case "rejected":
+      switch (result.errorCode) {
+        case 2:
+          return failed("initCode not found", `Error: ${result.message}`, [
+            "Please contact us on [Telegram](https://t.me/Filfoxofficial) if you encounter this error.",
+          ]);
+        case 3:
+          return failed("compiler not found", `Error: ${result.message}`, [
+            "Use the long compiler version format (e.g., v0.7.6+commit.7338295f)",
+          ]);
+        case 5:
+          return failed("unsupported language", `Error: ${result.message}`, [
+            "Only Solidity is supported for now.",
+          ]);
+        default:
+          return failed(`errorCode ${result.errorCode}`, `Error: ${result.message}`);
+      }
+  }
+}
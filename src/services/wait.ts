@@ -0,0 +1,117 @@
+import { Provider } from "ethers";
+import { FilfoxVerifier, VerificationRequest } from "./filfox-verifier";
+import { RequestOptions } from "./http";
+import { NetworkInput } from "./networks";
+import { VerificationResult } from "./verification-result";
+
+/**
+ * How long to wait for a freshly deployed contract before verifying it
+ */
+export interface WaitOptions {
+  /** Longest total wait in milliseconds */
+  maxWait?: number;
+  /** Delay between two polls in milliseconds */
+  interval?: number;
+  /** Wait for this many confirmations via `provider` instead of polling the explorer */
+  confirmations?: number;
+  provider?: Provider;
+  /** Deployment transaction, confirmations are counted from its block */
+  creationTx?: string;
+  /** Called on every unsuccessful poll */
+  onPoll?: (message: string) => void;
+}
+
+export const DEFAULT_WAIT_OPTIONS = {
+  maxWait: 5 * 60_000,
+  interval: 5_000,
+};
+
+/**
+ * Waits until Filfox has indexed the contract (or its deployment has the requested
+ * confirmations) and verifies it. While Filfox still answers "Contract initCode not found"
+ * (errorCode 2), verification is retried until the max wait is exhausted.
+ */
+export async function verifyWhenIndexed(
+  network: NetworkInput,
+  request: VerificationRequest,
+  waitOptions: WaitOptions = {},
+  requestOptions: RequestOptions = {}
+): Promise<VerificationResult> {
+  const verifier = new FilfoxVerifier(network, requestOptions);
+  const deadline = Date.now() + (waitOptions.maxWait ?? DEFAULT_WAIT_OPTIONS.maxWait);
+
+  await waitForContract(verifier, request.address, waitOptions, deadline);
+
+  for (;;) {
+    const result = await verifier.verify(request);
+    if (
+      result.status !== "rejected" ||
+      result.errorCode !== 2 ||
+      Date.now() >= deadline
+    ) {
+      return result;
+    }
+
+    waitOptions.onPoll?.("Filfox has not indexed the contract creation yet");
+    await sleep(waitOptions, deadline);
+  }
+}
+
+/**
+ * Resolves once the contract can be verified, throws when the max wait is exceeded
+ */
+export async function waitForContract(
+  verifier: FilfoxVerifier,
+  address: string,
+  waitOptions: WaitOptions,
+  deadline: number
+): Promise<void> {
+  const { confirmations, provider } = waitOptions;
+  if (confirmations && !provider) {
+    throw new Error("Waiting for confirmations requires an RPC provider");
+  }
+
+  let firstSeenBlock: number | undefined;
+
+  while (Date.now() < deadline) {
+    if (confirmations && provider) {
+      if (waitOptions.creationTx) {
+        const receipt = await provider.getTransactionReceipt(waitOptions.creationTx);
+        firstSeenBlock = receipt?.blockNumber ?? undefined;
+      } else if (firstSeenBlock === undefined && (await provider.getCode(address)) !== "0x") {
+        firstSeenBlock = await provider.getBlockNumber();
+      }
+
+      const current = await provider.getBlockNumber();
+      const confirmed = firstSeenBlock === undefined ? 0 : current - firstSeenBlock + 1;
+      if (confirmed >= confirmations) {
+        return;
+      }
+      waitOptions.onPoll?.(`${confirmed}/${confirmations} confirmations`);
+    } else {
+      if (await verifier.isIndexed(address)) {
+        return;
+      }
+      waitOptions.onPoll?.("Waiting for Filfox to index the contract");
+    }
+
+    await sleep(waitOptions, deadline);
+  }
+
+  throw new Error(
+    `Contract ${address} was not ready for verification after ${Math.round(
+      (waitOptions.maxWait ?? DEFAULT_WAIT_OPTIONS.maxWait) / 1000
+    )}s`
+  );
+}
+
+const sleep = (waitOptions: WaitOptions, deadline: number) =>
+  new Promise((resolve) =>
+    setTimeout(
+      resolve,
+      Math.max(
+        0,
+        Math.min(waitOptions.interval ?? DEFAULT_WAIT_OPTIONS.interval, deadline - Date.now())
+      )
+    )
+  );